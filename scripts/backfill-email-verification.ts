@@ -0,0 +1,39 @@
+// Marks accounts created before email verification existed as verified, so
+// they keep the sharing and export features that now require a confirmed
+// address.
+//
+// Run once after `npm run db:push` has added `users.email_verified_at`:
+//
+//   npm run db:backfill-email-verification
+//
+// An account counts as pre-existing when no verification email was ever sent
+// for it: signups and email changes always issue a token, so re-runs leave
+// newer unverified accounts alone.
+import 'dotenv/config';
+import { sql } from '@vercel/postgres';
+import { drizzle } from 'drizzle-orm/vercel-postgres';
+import { and, eq, isNull, notExists } from 'drizzle-orm';
+import * as schema from '../src/lib/schema';
+
+const db = drizzle(sql, { schema });
+
+async function main() {
+  const verified = await db.update(schema.users)
+    .set({ emailVerifiedAt: new Date() })
+    .where(and(
+      isNull(schema.users.emailVerifiedAt),
+      notExists(db.select({ id: schema.emailVerificationTokens.id })
+        .from(schema.emailVerificationTokens)
+        .where(eq(schema.emailVerificationTokens.userId, schema.users.id))),
+    ))
+    .returning({ id: schema.users.id });
+
+  console.log(`Marked ${verified.length} existing account(s) as verified.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
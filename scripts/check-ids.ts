@@ -0,0 +1,75 @@
+// Id check for databases created before UUIDv7 ids (see src/lib/id.ts).
+//
+// No data migration is needed: id columns stay `text`, so existing
+// `<prefix>_<timestamp>` ids remain valid primary and foreign keys as they are.
+// Nothing is rewritten, which keeps bookmarked URLs, audit snapshots and data
+// exports pointing at real rows. This script only checks that every stored id
+// is in one of the two recognised formats and reports how many legacy ids are
+// left per table. It exits with a non-zero status if it finds anything else,
+// e.g. ids imported by hand.
+//
+//   npm run db:check-ids
+import 'dotenv/config';
+import { sql } from '@vercel/postgres';
+import { drizzle } from 'drizzle-orm/vercel-postgres';
+import { sql as sqlExpr } from 'drizzle-orm';
+import type { PgTable, PgColumn } from 'drizzle-orm/pg-core';
+import * as schema from '../src/lib/schema';
+import { LEGACY_ID, UUIDV7_ID } from '../src/lib/id';
+
+const db = drizzle(sql, { schema });
+
+const tables: [string, PgTable, PgColumn][] = [
+  ['users', schema.users, schema.users.id],
+  ['glucose_logs', schema.glucoseLogs, schema.glucoseLogs.id],
+  ['weight_history', schema.weightHistory, schema.weightHistory.id],
+  ['activities', schema.activities, schema.activities.id],
+  ['hba1c_results', schema.hba1cResults, schema.hba1cResults.id],
+  ['ketone_readings', schema.ketoneReadings, schema.ketoneReadings.id],
+  ['sick_day_periods', schema.sickDayPeriods, schema.sickDayPeriods.id],
+  ['blood_pressure_readings', schema.bloodPressureReadings, schema.bloodPressureReadings.id],
+  ['hypo_events', schema.hypoEvents, schema.hypoEvents.id],
+  ['insulins', schema.insulins, schema.insulins.id],
+  ['insulin_doses', schema.insulinDoses, schema.insulinDoses.id],
+  ['tags', schema.tags, schema.tags.id],
+  ['shares', schema.shares, schema.shares.id],
+  ['clinic_links', schema.clinicLinks, schema.clinicLinks.id],
+  ['sessions', schema.sessions, schema.sessions.id],
+  ['password_reset_tokens', schema.passwordResetTokens, schema.passwordResetTokens.id],
+  ['email_verification_tokens', schema.emailVerificationTokens, schema.emailVerificationTokens.id],
+  ['recovery_codes', schema.recoveryCodes, schema.recoveryCodes.id],
+  ['two_factor_challenges', schema.twoFactorChallenges, schema.twoFactorChallenges.id],
+  ['security_events', schema.securityEvents, schema.securityEvents.id],
+  ['audit_events', schema.auditEvents, schema.auditEvents.id],
+  ['mail_outbox', schema.mailOutbox, schema.mailOutbox.id],
+];
+
+async function main() {
+  let unknownCount = 0;
+  for (const [name, table, idColumn] of tables) {
+    // Counted in the database so large tables are never loaded into memory.
+    const isUnknown = sqlExpr`${idColumn} !~ ${LEGACY_ID.source} and ${idColumn} !~ ${UUIDV7_ID.source}`;
+    const [counts] = await db.select({
+      total: sqlExpr<number>`count(*)::int`,
+      legacy: sqlExpr<number>`(count(*) filter (where ${idColumn} ~ ${LEGACY_ID.source}))::int`,
+      unknown: sqlExpr<number>`(count(*) filter (where ${isUnknown}))::int`,
+    }).from(table);
+    unknownCount += counts.unknown;
+    console.log(`${name}: ${counts.total} row(s), ${counts.legacy} legacy id(s)${counts.unknown ? `, ${counts.unknown} unrecognised` : ''}`);
+    if (counts.unknown > 0) {
+      const samples = await db.select({ id: idColumn }).from(table).where(isUnknown).limit(10);
+      for (const { id } of samples) console.log(`  unrecognised id: ${id}`);
+    }
+  }
+  if (unknownCount > 0) {
+    throw new Error(`${unknownCount} id(s) are in neither the legacy nor the UUIDv7 format.`);
+  }
+  console.log('All ids are valid.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,77 @@
+// Moves dosages recorded before the insulin catalog into `insulin_doses`.
+//
+// Run after `npm run db:push` has created the `insulins` and `insulin_doses`
+// tables (the old `glucose_logs.dosage` column is kept, now nullable):
+//
+//   npm run db:migrate-insulin-doses
+//
+// Every user with legacy dosages gets a default Novorapid product (reused if
+// they already have one by that name), each positive dosage becomes a dose of
+// it, and the legacy value is cleared. Migrated rows are skipped on re-runs.
+import 'dotenv/config';
+import { sql } from '@vercel/postgres';
+import { drizzle, type VercelPgDatabase } from 'drizzle-orm/vercel-postgres';
+import { and, eq, ilike, inArray, isNotNull } from 'drizzle-orm';
+import * as schema from '../src/lib/schema';
+import { createId } from '../src/lib/id';
+import { DEFAULT_INSULIN } from '../src/lib/insulins';
+
+const db = drizzle(sql, { schema });
+
+async function getDefaultInsulinId(database: VercelPgDatabase<typeof schema>, userId: string): Promise<string> {
+  const existing = await database.query.insulins.findFirst({
+    where: and(eq(schema.insulins.userId, userId), ilike(schema.insulins.name, DEFAULT_INSULIN.name)),
+  });
+  if (existing) return existing.id;
+
+  const [created] = await database.insert(schema.insulins)
+    .values({ id: createId('insulin'), userId, ...DEFAULT_INSULIN })
+    .returning({ id: schema.insulins.id });
+  return created.id;
+}
+
+async function main() {
+  const logs = await db.select({
+    id: schema.glucoseLogs.id,
+    userId: schema.glucoseLogs.userId,
+    dosage: schema.glucoseLogs.legacyDosage,
+  })
+    .from(schema.glucoseLogs)
+    .where(isNotNull(schema.glucoseLogs.legacyDosage));
+
+  const logsByUser = new Map<string, typeof logs>();
+  for (const log of logs) {
+    logsByUser.set(log.userId, [...(logsByUser.get(log.userId) ?? []), log]);
+  }
+
+  let doseCount = 0;
+  for (const [userId, userLogs] of logsByUser) {
+    // Doses and the cleared legacy values land together, so a re-run after a
+    // crash never doubles a user's doses.
+    doseCount += await db.transaction(async tx => {
+      const withDose = userLogs.filter(log => (log.dosage ?? 0) > 0);
+      if (withDose.length > 0) {
+        const insulinId = await getDefaultInsulinId(tx, userId);
+        await tx.insert(schema.insulinDoses).values(withDose.map(log => ({
+          id: createId('dose'),
+          logId: log.id,
+          insulinId,
+          units: log.dosage!,
+        })));
+      }
+      await tx.update(schema.glucoseLogs)
+        .set({ legacyDosage: null })
+        .where(inArray(schema.glucoseLogs.id, userLogs.map(log => log.id)));
+      return withDose.length;
+    });
+  }
+
+  console.log(`Migrated ${logs.length} log(s) for ${logsByUser.size} user(s); created ${doseCount} dose(s).`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,25 @@
+// Erases data whose retention period is over (see src/lib/retention.ts).
+// Schedule it to run regularly, e.g. hourly from cron:
+//
+//   npm run db:purge-expired
+import 'dotenv/config';
+import { sql } from '@vercel/postgres';
+import { drizzle } from 'drizzle-orm/vercel-postgres';
+import * as schema from '../src/lib/schema';
+import { purgeExpiredTrash, purgeScheduledAccountDeletions } from '../src/lib/retention';
+
+const db = drizzle(sql, { schema });
+
+async function main() {
+  const now = new Date();
+  const accounts = await purgeScheduledAccountDeletions(db, now);
+  const trashed = await purgeExpiredTrash(db, now);
+  console.log(`Erased ${accounts} account(s) past their deletion grace period and ${trashed} expired trash entr${trashed === 1 ? 'y' : 'ies'}.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
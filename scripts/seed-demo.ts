@@ -0,0 +1,63 @@
+// Creates a demo account filled with generated readings (see
+// src/lib/demo-data.ts), for reviewing reports and reminders locally:
+//
+//   npm run db:seed-demo -- [--email demo@example.com] [--days 90] [--seed 20240601]
+//
+// The account is created with a verified email and the password from
+// DEMO_PASSWORD (default `demo-password`). An existing account is reused as
+// long as it has no logs or weights yet.
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { sql } from '@vercel/postgres';
+import { drizzle } from 'drizzle-orm/vercel-postgres';
+import { eq } from 'drizzle-orm';
+import bcrypt from 'bcryptjs';
+import * as schema from '../src/lib/schema';
+import { createId } from '../src/lib/id';
+import { DEMO_DAYS, DEMO_SEED, MAX_DEMO_DAYS, generateDemoData, insertDemoData } from '../src/lib/demo-data';
+
+const db = drizzle(sql, { schema });
+
+async function findOrCreateUser(email: string): Promise<string> {
+  const existing = await db.query.users.findFirst({ where: eq(schema.users.email, email) });
+  if (existing) {
+    const [log, weight] = await Promise.all([
+      db.query.glucoseLogs.findFirst({ where: eq(schema.glucoseLogs.userId, existing.id), columns: { id: true } }),
+      db.query.weightHistory.findFirst({ where: eq(schema.weightHistory.userId, existing.id), columns: { id: true } }),
+    ]);
+    if (log || weight) throw new Error(`${email} already has logs or weights; delete them or pick another --email.`);
+    return existing.id;
+  }
+
+  const passwordHash = await bcrypt.hash(process.env.DEMO_PASSWORD || 'demo-password', await bcrypt.genSalt(10));
+  const [created] = await db.insert(schema.users)
+    .values({ id: createId('user'), name: 'Demo User', email, passwordHash, emailVerifiedAt: new Date(), height: 175 })
+    .returning({ id: schema.users.id });
+  return created.id;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      email: { type: 'string', default: 'demo@example.com' },
+      days: { type: 'string', default: String(DEMO_DAYS) },
+      seed: { type: 'string', default: String(DEMO_SEED) },
+    },
+  });
+  const email = values.email.trim();
+  const days = Number(values.days);
+  const seed = Number(values.seed);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DEMO_DAYS) throw new Error(`--days must be a whole number from 1 to ${MAX_DEMO_DAYS}.`);
+  if (!Number.isInteger(seed)) throw new Error('--seed must be a whole number.');
+  const userId = await findOrCreateUser(email);
+  const data = generateDemoData(userId, { days, seed });
+  await insertDemoData(db, userId, data);
+  console.log(`${email}: ${data.glucoseLogs.length} glucose log(s), ${data.weightHistory.length} weight(s), ${data.hypoEvents.length} hypo event(s).`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
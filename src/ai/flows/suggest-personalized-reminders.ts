@@ -10,6 +10,7 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {SICK_DAY_CHECK_HOURS} from '@/lib/sick-day';
 
 const SuggestPersonalizedRemindersInputSchema = z.object({
   glucoseLogs: z.array(
@@ -19,9 +20,29 @@ const SuggestPersonalizedRemindersInputSchema = z.object({
         .enum(['Breakfast', 'Lunch', 'Dinner', 'Snack', 'Fasting'])
         .describe('Type of meal associated with the reading.'),
       glycemia: z.number().describe('Glucose level in g/L.'),
-      dosage: z.number().describe('Novorapide dosage in units.'),
+      doses: z.array(
+        z.object({
+          insulin: z.string().describe('Name of the insulin product.'),
+          type: z
+            .enum(['rapid', 'short', 'intermediate', 'long', 'mixed'])
+            .describe('How fast the insulin acts.'),
+          units: z.number().describe('Injected units.'),
+        })
+      ).describe('Insulin injections recorded with the reading.'),
+      carbs: z.number().nullable().describe('Grams of carbohydrate eaten with the reading, if recorded.'),
+      mealDescription: z.string().nullable().describe('Free-text description of the meal, if recorded.'),
+      notes: z.string().nullable().describe('Free-text notes the user wrote about the reading.'),
+      tags: z.array(z.string()).describe('User-defined tags such as "exercise" or "forgot bolus".'),
     })
   ).describe('Historical glucose log entries for the user.'),
+  sickDay: z.boolean().describe('Whether the user is ill and following their sick-day protocol.'),
+  recentKetones: z.array(
+    z.object({
+      timestamp: z.string().describe('Date and time of the ketone reading (ISO format).'),
+      method: z.enum(['blood', 'urine']).describe('Blood meter or urine strip.'),
+      value: z.number().describe('Ketones in mmol/L.'),
+    })
+  ).describe('Ketone readings taken during the current sick day.'),
 });
 export type SuggestPersonalizedRemindersInput = z.infer<typeof SuggestPersonalizedRemindersInputSchema>;
 
@@ -43,12 +64,22 @@ const prompt = ai.definePrompt({
   name: 'suggestPersonalizedRemindersPrompt',
   input: {schema: SuggestPersonalizedRemindersInputSchema},
   output: {schema: SuggestPersonalizedRemindersOutputSchema},
-  prompt: `You are an AI assistant specializing in diabetes management. Analyze the user's historical glucose logs and suggest personalized reminders for checking blood sugar levels. The reminders should be based on patterns in the user's glucose levels related to meal times, dosages, and glycemia levels. Suggest times to check glucose that will help them stabalize their glucose levels.
+  prompt: `You are an AI assistant specializing in diabetes management. Analyze the user's historical glucose logs and suggest personalized reminders for checking blood sugar levels. The reminders should be based on patterns in the user's glucose levels related to meal times, carbohydrate intake, insulin injections (taking the type of each insulin into account), and glycemia levels. Suggest times to check glucose that will help them stabalize their glucose levels.
 
 Glucose Logs:
 {{#each glucoseLogs}}
-- Timestamp: {{timestamp}}, Meal Type: {{mealType}}, Glycemia: {{glycemia}} g/L, Dosage: {{dosage}} units
+- Timestamp: {{timestamp}}, Meal Type: {{mealType}}, Glycemia: {{glycemia}} g/L, Insulin: {{#each doses}}{{units}} units of {{insulin}} ({{type}}-acting); {{else}}none{{/each}}, Carbs: {{#if carbs includeZero=true}}{{carbs}} g{{else}}not recorded{{/if}}{{#if mealDescription}}, Meal: {{mealDescription}}{{/if}}{{#if tags.length}}, Tags: {{#each tags}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}{{/if}}{{#if notes}}, Notes: {{notes}}{{/if}}
+{{/each}}
+{{#if sickDay}}
+
+The user is currently ill and in sick-day mode. Tighten the schedule: suggest glucose checks at least every ${SICK_DAY_CHECK_HOURS.glucose} hours around the clock and ketone checks at least every ${SICK_DAY_CHECK_HOURS.ketones} hours, remind them never to skip basal insulin and to keep drinking fluids.
+Ketone readings since the sick day started:
+{{#each recentKetones}}
+- Timestamp: {{timestamp}}, {{method}}: {{value}} mmol/L
+{{else}}
+- none yet
 {{/each}}
+{{/if}}
 
 Based on this data, suggest personalized reminders including the time and reminder message:
 
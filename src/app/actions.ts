@@ -1,15 +1,27 @@
 'use server';
 
 import { suggestPersonalizedReminders } from '@/ai/flows/suggest-personalized-reminders';
-import type { GlucoseLog } from '@/lib/types';
+import type { GlucoseLog, Insulin, KetoneReading, SickDayPeriod } from '@/lib/types';
 
-export async function getSuggestedReminders(logs: GlucoseLog[]): Promise<{ time: string; message: string }[]> {
+export async function getSuggestedReminders(
+  logs: GlucoseLog[],
+  insulins: Insulin[],
+  sickDay: { period: SickDayPeriod; ketoneReadings: KetoneReading[] } | null = null,
+): Promise<{ time: string; message: string }[]> {
   try {
+    const insulinsById = new Map(insulins.map(insulin => [insulin.id, insulin]));
     const formattedLogs = logs.map(log => ({
       timestamp: log.timestamp,
       mealType: log.mealType,
       glycemia: log.glycemia,
-      dosage: log.dosage,
+      carbs: log.carbs,
+      mealDescription: log.mealDescription,
+      notes: log.notes,
+      tags: log.tags,
+      doses: log.doses.flatMap(dose => {
+        const insulin = insulinsById.get(dose.insulinId);
+        return insulin ? [{ insulin: insulin.name, type: insulin.type, units: dose.units }] : [];
+      }),
     }));
 
     if (formattedLogs.length === 0) {
@@ -19,7 +31,13 @@ export async function getSuggestedReminders(logs: GlucoseLog[]): Promise<{ time:
     // a bit of defensive programming.
     const limitedLogs = formattedLogs.slice(0, 50);
 
-    const result = await suggestPersonalizedReminders({ glucoseLogs: limitedLogs });
+    const recentKetones = sickDay
+      ? sickDay.ketoneReadings
+          .filter(reading => new Date(reading.takenAt) >= new Date(sickDay.period.startedAt))
+          .map(reading => ({ timestamp: reading.takenAt, method: reading.method, value: reading.value }))
+      : [];
+
+    const result = await suggestPersonalizedReminders({ glucoseLogs: limitedLogs, sickDay: !!sickDay, recentKetones });
     return result.reminders;
   } catch (error) {
     console.error('Error fetching reminders:', error);
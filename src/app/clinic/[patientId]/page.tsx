@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { AppLayout } from '@/components/AppLayout';
+import { ReportsView } from '@/components/reports-view';
+import { HbA1cSection } from '@/components/hba1c-section';
+import { getActivities, getBloodPressureReadings, getClinicPatient, getGlucoseLogs, getHbA1cResults, getHypoEvents, getSickDayPeriods, getWeightHistory } from '@/app/db-actions';
+import type { Activity, BloodPressureReading, GlucoseLog, HbA1cResult, HypoEvent, SickDayPeriod, WeightEntry } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, ArrowLeft, Loader2 } from 'lucide-react';
+
+interface PatientRecords {
+  name: string;
+  email: string;
+  glucoseLogs: GlucoseLog[];
+  weightHistory: WeightEntry[];
+  activities: Activity[];
+  hba1cResults: HbA1cResult[];
+  sickDayPeriods: SickDayPeriod[];
+  bloodPressureReadings: BloodPressureReading[];
+  hypoEvents: HypoEvent[];
+}
+
+export default function ClinicPatientPage() {
+  const { patientId } = useParams<{ patientId: string }>();
+  const [records, setRecords] = useState<PatientRecords | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      getClinicPatient(patientId),
+      getGlucoseLogs(patientId),
+      getWeightHistory(patientId),
+      getActivities(patientId),
+      getHbA1cResults(patientId),
+      getSickDayPeriods(patientId),
+      getBloodPressureReadings(patientId),
+      getHypoEvents(patientId),
+    ])
+      .then(([patient, glucoseLogs, weightHistory, activities, hba1cResults, sickDayPeriods, bloodPressureReadings, hypoEvents]) => (
+        setRecords({ ...patient, glucoseLogs, weightHistory, activities, hba1cResults, sickDayPeriods, bloodPressureReadings, hypoEvents })
+      ))
+      .catch((err: any) => setError(err.message));
+  }, [patientId]);
+
+  return (
+    <AppLayout>
+      <div className="flex flex-col gap-4">
+        <Button asChild variant="ghost" className="self-start">
+          <Link href="/clinic"><ArrowLeft className="mr-2 h-4 w-4" /> Back to patient panel</Link>
+        </Button>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Patient unavailable</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : !records ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <ReportsView
+              glucoseLogs={records.glucoseLogs}
+              weightHistory={records.weightHistory}
+              activities={records.activities}
+              sickDayPeriods={records.sickDayPeriods}
+              bloodPressureReadings={records.bloodPressureReadings}
+              hypoEvents={records.hypoEvents}
+              title={records.name}
+              description={`Read-only reports for ${records.email}.`}
+            />
+            <HbA1cSection results={records.hba1cResults} glucoseLogs={records.glucoseLogs} />
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
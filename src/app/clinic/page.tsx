@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { AppLayout } from '@/components/AppLayout';
+import { useApp } from '@/context/app-context';
+import { getClinicLinks, getClinicPatients, requestPatientLink, revokeClinicLink } from '@/app/db-actions';
+import type { ClinicLink, ClinicPatientSummary } from '@/lib/types';
+import { TARGET_RANGE } from '@/lib/glucose-stats';
+import { GLUCOSE_UNITS, formatGlucose } from '@/lib/glucose-units';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronRight, Loader2, Stethoscope, UserPlus, X } from 'lucide-react';
+
+const linkRequestSchema = z.object({
+  email: z.string().email('Invalid email address.'),
+});
+
+type FormData = z.infer<typeof linkRequestSchema>;
+
+export default function ClinicPage() {
+  const { user, glucoseUnit } = useApp();
+  const { toast } = useToast();
+  const [patients, setPatients] = useState<ClinicPatientSummary[] | null>(null);
+  const [pendingLinks, setPendingLinks] = useState<ClinicLink[]>([]);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(linkRequestSchema),
+    defaultValues: { email: '' },
+  });
+
+  const isClinician = user?.role === 'clinician';
+
+  const loadPanel = useCallback(async () => {
+    try {
+      const [summaries, links] = await Promise.all([getClinicPatients(), getClinicLinks()]);
+      setPatients(summaries);
+      setPendingLinks(links.asClinician.filter(link => link.status === 'pending'));
+    } catch (error: any) {
+      setPatients([]);
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isClinician) loadPanel();
+  }, [isClinician, loadPanel]);
+
+  const onSubmit = async (data: FormData) => {
+    try {
+      await requestPatientLink(data.email);
+      form.reset();
+      toast({ title: 'Request sent', description: `If ${data.email} has an account, they can now approve your request.` });
+      await loadPanel();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const handleCancel = async (linkId: string) => {
+    try {
+      await revokeClinicLink(linkId);
+      await loadPanel();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  if (!isClinician) {
+    return (
+      <AppLayout>
+        <Alert className="bg-glass">
+          <Stethoscope className="h-4 w-4" />
+          <AlertTitle>Clinician workspace</AlertTitle>
+          <AlertDescription>
+            This area is for healthcare professionals. You can turn on the clinician workspace from your <Link href="/profile" className="font-medium text-primary hover:underline">profile</Link>.
+          </AlertDescription>
+        </Alert>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="flex flex-col gap-6">
+        <Card className="bg-glass">
+          <CardHeader>
+            <CardTitle>Patient Panel</CardTitle>
+            <CardDescription>
+              Last 14 days for every patient who approved your access. Time in range counts readings between {formatGlucose(TARGET_RANGE.low, glucoseUnit, { withUnit: false })} and {formatGlucose(TARGET_RANGE.high, glucoseUnit)}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!patients ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Latest Reading</TableHead>
+                    <TableHead>14-day Avg. ({GLUCOSE_UNITS[glucoseUnit].label})</TableHead>
+                    <TableHead>Time in Range</TableHead>
+                    <TableHead><span className="sr-only">Open</span></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {patients.length > 0 ? patients.map(patient => (
+                    <TableRow key={patient.patientId}>
+                      <TableCell>
+                        <p className="font-medium">{patient.name}</p>
+                        <p className="text-xs text-muted-foreground">{patient.email}</p>
+                      </TableCell>
+                      <TableCell>
+                        {patient.latestReading ? (
+                          <>
+                            <p>{formatGlucose(patient.latestReading.glycemia, glucoseUnit)}</p>
+                            <p className="text-xs text-muted-foreground">{format(new Date(patient.latestReading.timestamp), 'Pp')}</p>
+                          </>
+                        ) : <span className="text-muted-foreground">No readings</span>}
+                      </TableCell>
+                      <TableCell>{patient.average14d !== null ? formatGlucose(patient.average14d, glucoseUnit, { withUnit: false }) : '—'}</TableCell>
+                      <TableCell>
+                        {patient.timeInRange14d !== null ? (
+                          <Badge variant={patient.timeInRange14d >= 0.7 ? 'secondary' : 'destructive'}>
+                            {Math.round(patient.timeInRange14d * 100)}%
+                          </Badge>
+                        ) : '—'}
+                        <p className="text-xs text-muted-foreground">{patient.readingCount14d} reading(s)</p>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button asChild variant="ghost" size="icon">
+                          <Link href={`/clinic/${patient.patientId}`} aria-label={`Open ${patient.name}'s reports`}>
+                            <ChevronRight className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center">No linked patients yet.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-glass">
+          <CardHeader>
+            <CardTitle>Link a Patient</CardTitle>
+            <CardDescription>The patient has to approve the request from their profile before you see any data.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-2 md:flex-row md:items-end">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Patient email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="patient@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                  Send Request
+                </Button>
+              </form>
+            </Form>
+            {pendingLinks.length > 0 && (
+              <ul className="space-y-2">
+                {pendingLinks.map(link => (
+                  <li key={link.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">
+                      {link.name} <span className="text-muted-foreground">({link.email})</span> <Badge variant="outline" className="ml-1">Awaiting approval</Badge>
+                    </span>
+                    <Button variant="ghost" size="icon" aria-label={`Cancel request to ${link.email}`} onClick={() => handleCancel(link.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
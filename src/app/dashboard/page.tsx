@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -33,33 +33,53 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import { InsulinDosesField, insulinDosesSchema } from '@/components/insulin-doses-field';
+import { ActivityCard } from '@/components/activity-card';
+import { KetoneCard } from '@/components/ketone-card';
+import { BloodPressureCard } from '@/components/blood-pressure-card';
+import { SickDayGuidance } from '@/components/sick-day-guidance';
+import { HypoEventDialog } from '@/components/hypo-event-dialog';
+import { HypoRecheckAlert } from '@/components/hypo-recheck-alert';
+import { DemoDataCard } from '@/components/demo-data-card';
 import { calculateBMI } from '@/lib/utils';
-import type { MealType } from '@/lib/types';
+import { GLUCOSE_UNITS, formatGlucose, fromDisplayGlucose, toDisplayGlucose } from '@/lib/glucose-units';
+import type { GlucoseLog, MealType } from '@/lib/types';
+import { isHypo } from '@/lib/hypo';
 import { useToast } from '@/hooks/use-toast';
 import { TrendingDown, TrendingUp, ArrowRight, Scale, Droplet, PlusCircle, Activity, BarChart, User, BookText } from 'lucide-react';
 import Link from 'next/link';
 
 const glucoseLogSchema = z.object({
   glycemia: z.coerce.number().min(0.1, 'Glycemia is required.'),
-  dosage: z.coerce.number().min(0, 'Dosage must be 0 or more.'),
+  doses: insulinDosesSchema,
+  carbs: z.union([z.literal(''), z.coerce.number().min(0, 'Carbs must be 0 or more.')]).optional(),
+  mealDescription: z.string().max(200, 'Keep it under 200 characters.').optional(),
   mealType: z.enum(['Breakfast', 'Lunch', 'Dinner', 'Snack', 'Fasting']),
   weight: z.coerce.number().positive("Weight must be a positive number.").optional().or(z.literal('')),
 });
 
 export default function DashboardPage() {
-  const { profile, weightHistory, glucoseLogs, addGlucoseLog, addWeightEntry, user } = useApp();
+  const { profile, glucoseUnit, weightHistory, glucoseLogs, hypoThreshold, addGlucoseLog, addWeightEntry, user, subject, accessRole } = useApp();
+  const [hypoLog, setHypoLog] = useState<GlucoseLog | null>(null);
   const { toast } = useToast();
   const router = useRouter();
 
   const form = useForm<z.infer<typeof glucoseLogSchema>>({
     resolver: zodResolver(glucoseLogSchema),
     defaultValues: {
-      glycemia: 1.0,
-      dosage: 0,
+      glycemia: toDisplayGlucose(1.0, glucoseUnit),
+      doses: [],
+      carbs: '',
+      mealDescription: '',
       mealType: 'Fasting',
       weight: '',
     },
   });
+
+  // The profile, and with it the unit, loads after the first render.
+  useEffect(() => {
+    form.resetField('glycemia', { defaultValue: toDisplayGlucose(1.0, glucoseUnit) });
+  }, [form, glucoseUnit]);
   
   const latestLog = glucoseLogs[0];
   const previousLog = glucoseLogs[1];
@@ -75,16 +95,20 @@ export default function DashboardPage() {
 
   const latestWeight = weightHistory[0]?.weight;
   const bmi = useMemo(() => {
-    if (!profile || !latestWeight || !profile.height) return null;
+    if (!profile || !latestWeight || !profile.height || subject) return null;
     return calculateBMI(profile.height, latestWeight)
-  }, [profile, latestWeight]);
+  }, [profile, latestWeight, subject]);
 
   async function onSubmit(values: z.infer<typeof glucoseLogSchema>) {
     try {
-        await addGlucoseLog({
-          glycemia: values.glycemia,
-          dosage: values.dosage,
+        const newLog = await addGlucoseLog({
+          glycemia: fromDisplayGlucose(values.glycemia, glucoseUnit),
+          doses: values.doses,
+          carbs: typeof values.carbs === 'number' ? values.carbs : null,
+          mealDescription: values.mealDescription || null,
           mealType: values.mealType as MealType,
+          notes: null,
+          tags: [],
         });
 
         if (values.weight && typeof values.weight === 'number' && values.weight > 0) {
@@ -97,11 +121,17 @@ export default function DashboardPage() {
         });
 
         form.reset({
-          glycemia: 1.0,
-          dosage: 0,
+          glycemia: toDisplayGlucose(1.0, glucoseUnit),
+          doses: [],
+          carbs: '',
+          mealDescription: '',
           mealType: 'Fasting',
           weight: ''
         });
+
+        if (isHypo(newLog.glycemia, hypoThreshold)) {
+          setHypoLog(newLog);
+        }
     } catch (error: any) {
         toast({
           title: 'Error',
@@ -117,10 +147,25 @@ export default function DashboardPage() {
     <AppLayout>
       <div className="flex flex-col gap-6">
         <div>
-          <h1 className="text-3xl font-bold">Welcome back, {user?.displayName?.split(' ')[0]}!</h1>
-          <p className="text-muted-foreground">Here's a summary of your health today.</p>
+          {subject ? (
+            <>
+              <h1 className="text-3xl font-bold">{subject.name}</h1>
+              <p className="text-muted-foreground">Here's a summary of their health today.</p>
+            </>
+          ) : (
+            <>
+              <h1 className="text-3xl font-bold">Welcome back, {user?.displayName?.split(' ')[0]}!</h1>
+              <p className="text-muted-foreground">Here's a summary of your health today.</p>
+            </>
+          )}
         </div>
 
+        <SickDayGuidance />
+
+        <HypoRecheckAlert />
+
+        <DemoDataCard />
+
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           <Card className="bg-glass">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -130,7 +175,7 @@ export default function DashboardPage() {
             <CardContent>
               {latestLog ? (
                 <>
-                  <div className="text-2xl font-bold">{latestLog.glycemia.toFixed(2)} <span className="text-sm font-normal text-muted-foreground">g/L</span></div>
+                  <div className="text-2xl font-bold">{formatGlucose(latestLog.glycemia, glucoseUnit, { withUnit: false })} <span className="text-sm font-normal text-muted-foreground">{GLUCOSE_UNITS[glucoseUnit].label}</span></div>
                   <div className="flex items-center text-xs text-muted-foreground">
                      <TrendIcon className={`mr-1 h-4 w-4 ${trend.color}`} />
                      {trend.text}
@@ -153,7 +198,7 @@ export default function DashboardPage() {
                       <p className="text-xs text-muted-foreground">From {latestWeight}kg and {profile.height}cm</p>
                   </>
               ) : (
-                <p className="text-sm text-muted-foreground">Enter weight & height in profile.</p>
+                <p className="text-sm text-muted-foreground">{subject ? 'Not available for shared records.' : 'Enter weight & height in profile.'}</p>
               )}
             </CardContent>
           </Card>
@@ -175,6 +220,7 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {accessRole !== 'viewer' && (
         <Card className="bg-glass">
           <CardHeader>
             <div className="flex items-center gap-2">
@@ -182,7 +228,7 @@ export default function DashboardPage() {
                 <CardTitle>Add Health Log</CardTitle>
             </div>
             <CardDescription>
-              Quickly add a new reading for today. Weight is optional.
+              Quickly add a new reading for today. Carbs, meal and weight are optional.
             </CardDescription>
           </CardHeader>
           <Form {...form}>
@@ -194,22 +240,9 @@ export default function DashboardPage() {
                     name="glycemia"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Glycemia (g/L)</FormLabel>
-                        <FormControl>
-                          <Input type="number" step="0.01" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="dosage"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Novorapide Dosage</FormLabel>
+                        <FormLabel>Glycemia ({GLUCOSE_UNITS[glucoseUnit].label})</FormLabel>
                         <FormControl>
-                          <Input type="number" step="1" {...field} />
+                          <Input type="number" step={GLUCOSE_UNITS[glucoseUnit].step} {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -239,6 +272,19 @@ export default function DashboardPage() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="carbs"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Carbs (g)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="1" placeholder="Optional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="weight"
@@ -253,6 +299,22 @@ export default function DashboardPage() {
                     )}
                   />
                 </div>
+                <FormField
+                  control={form.control}
+                  name="mealDescription"
+                  render={({ field }) => (
+                    <FormItem className="mt-4">
+                      <FormLabel>What did you eat?</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional, e.g. pasta and a yoghurt" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="mt-4">
+                  <InsulinDosesField control={form.control} />
+                </div>
               </CardContent>
               <CardFooter>
                 <Button type="submit">Save Log</Button>
@@ -260,7 +322,15 @@ export default function DashboardPage() {
             </form>
           </Form>
         </Card>
+        )}
+
+        {accessRole !== 'viewer' && <BloodPressureCard />}
+
+        {accessRole !== 'viewer' && <KetoneCard />}
+
+        {accessRole !== 'viewer' && <ActivityCard />}
       </div>
+      <HypoEventDialog log={hypoLog} onOpenChange={(open) => !open && setHypoLog(null)} />
     </AppLayout>
   );
 }
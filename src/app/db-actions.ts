@@ -3,12 +3,25 @@
 
 import { db } from '@/lib/db';
 import * as schema from '@/lib/schema';
-import type { UserProfile, WeightEntry, GlucoseLog, AppUser } from '@/lib/types';
-import { eq, inArray } from 'drizzle-orm';
-import { cookies } from 'next/headers';
+import type { UserProfile, WeightEntry, GlucoseLog, Activity, HbA1cResult, KetoneReading, SickDayPeriod, BloodPressureReading, HypoEvent, Insulin, InsulinDose, AppUser, ActiveSession, AuditAction, AuditEntityType, AuditEvent, Share, SharedAccount, ShareRole, UserRole, ClinicLink, ClinicPatientSummary, LoginResult, OutboxMessage, SecurityEvent, SecurityEventType, TotpEnrollment, TrashContents, UserDataExport } from '@/lib/types';
+import { and, desc, eq, gt, gte, inArray, isNotNull, isNull, ne, notExists, or, sql } from 'drizzle-orm';
+import type { VercelPgDatabase } from 'drizzle-orm/vercel-postgres';
+import { cookies, headers } from 'next/headers';
+import { z } from 'zod';
 import bcrypt from 'bcryptjs';
+import { generateToken, hashToken } from '@/lib/tokens';
+import { createId } from '@/lib/id';
+import { findActiveSession, SESSION_COOKIE_NAME } from '@/lib/session';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from '@/lib/totp';
+import { ForbiddenError, NotFoundError, UnauthenticatedError } from '@/lib/errors';
+import { isOutboxTransport, sendMail } from '@/lib/mail';
+import { summarizeGlucose } from '@/lib/glucose-stats';
+import { GLUCOSE_UNITS } from '@/lib/glucose-units';
+import { generateDemoData, insertDemoData } from '@/lib/demo-data';
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/retention';
+import { HYPO_RECHECK_MINUTES, HYPO_RECHECK_WINDOW_MINUTES, HYPO_SYMPTOMS, HYPO_THRESHOLD_LIMITS } from '@/lib/hypo';
+import { ACCOUNT_THROTTLE_POLICY, IP_THROTTLE_POLICY, isThrottled, registerFailure, type ThrottleState } from '@/lib/login-throttle';
 
-const SESSION_COOKIE_NAME = 'glucotrack_session';
 
 // Check for database connection string
 if (!process.env.POSTGRES_URL) {
@@ -25,6 +38,16 @@ if (!process.env.POSTGRES_URL) {
 }
 
 
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_MEAL_DESCRIPTION_LENGTH = 200;
+const MAX_NOTES_LENGTH = 1000;
+const MAX_TAG_LENGTH = 30;
+const MAX_TAGS_PER_LOG = 10;
+const MAX_ACTIVITY_MINUTES = 24 * 60;
+const MIN_HBA1C_PERCENT = 3;
+const MAX_HBA1C_PERCENT = 20;
+const MAX_KETONE_MMOL = 20;
+
 async function hashPassword(password: string): Promise<string> {
   const salt = await bcrypt.genSalt(10);
   return bcrypt.hash(password, salt);
@@ -34,36 +57,346 @@ async function verifyPassword(password: string, hash: string): Promise<boolean>
   return bcrypt.compare(password, hash);
 }
 
-// Mimic session management
+// Absolute base URL used for links in outgoing emails.
+// Addresses are matched to accounts whatever their case.
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+async function getAppUrl(): Promise<string> {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, '');
+  const headerList = await headers();
+  const host = headerList.get('x-forwarded-host') ?? headerList.get('host');
+  const protocol = headerList.get('x-forwarded-proto') ?? 'http';
+  return `${protocol}://${host}`;
+}
+
+async function getClientInfo(): Promise<{ ipAddress: string | null; userAgent: string | null }> {
+  const headerList = await headers();
+  // Clients can send their own X-Forwarded-For; only the entry appended by
+  // our proxy, the last one, can be trusted.
+  const forwardedFor = headerList.get('x-forwarded-for')?.split(',').at(-1)?.trim();
+  return {
+    ipAddress: forwardedFor || headerList.get('x-real-ip'),
+    userAgent: headerList.get('user-agent'),
+  };
+}
+
+async function recordSecurityEvent(
+  userId: string,
+  type: SecurityEventType,
+  client: { ipAddress: string | null; userAgent: string | null }
+) {
+  await db.insert(schema.securityEvents).values({ id: createId('sec'), userId, type, ...client });
+}
+
+async function saveThrottle(key: string, state: ThrottleState) {
+  const { failures, lastFailureAt, lockedUntil } = state;
+  await db.insert(schema.loginThrottles)
+    .values({ key, failures, lastFailureAt, lockedUntil })
+    .onConflictDoUpdate({ target: schema.loginThrottles.key, set: { failures, lastFailureAt, lockedUntil } });
+}
+
+// Session management
+// The cookie only carries a random token; the session itself lives in the
+// `sessions` table so it can expire and be revoked server-side.
+const SESSION_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 7; // 1 week
+const SESSION_TOUCH_INTERVAL_MS = 1000 * 60 * 5; // throttle last-seen writes
+
 async function createSession(userId: string) {
-  cookies().set(SESSION_COOKIE_NAME, userId, {
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_MS);
+
+  await db.insert(schema.sessions).values({
+    id: createId('session'),
+    userId,
+    tokenHash: await hashToken(token),
+    expiresAt,
+    ...await getClientInfo(),
+  });
+
+  (await cookies()).set(SESSION_COOKIE_NAME, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
-    maxAge: 60 * 60 * 24 * 7, // 1 week
+    sameSite: 'lax',
+    expires: expiresAt,
     path: '/',
   });
 }
 
+async function getCurrentSession() {
+    const token = (await cookies()).get(SESSION_COOKIE_NAME)?.value;
+    if (!token) return null;
+
+    const session = await findActiveSession(token);
+    if (!session) return null;
+
+    if (Date.now() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        await db.update(schema.sessions)
+            .set({ lastSeenAt: new Date() })
+            .where(eq(schema.sessions.id, session.id));
+    }
+    return session;
+}
+
+// Revokes every live session of a user, optionally keeping one (the caller's).
+async function revokeUserSessions(userId: string, exceptSessionId?: string) {
+    await db.update(schema.sessions)
+        .set({ revokedAt: new Date() })
+        .where(and(
+            eq(schema.sessions.userId, userId),
+            isNull(schema.sessions.revokedAt),
+            exceptSessionId ? ne(schema.sessions.id, exceptSessionId) : undefined,
+        ));
+}
+
 async function clearSession() {
-    cookies().delete(SESSION_COOKIE_NAME);
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+    if (token) {
+        await db.update(schema.sessions)
+            .set({ revokedAt: new Date() })
+            .where(eq(schema.sessions.tokenHash, await hashToken(token)));
+    }
+    cookieStore.delete(SESSION_COOKIE_NAME);
 }
 
 export async function checkSession(): Promise<AppUser | null> {
-    const userId = cookies().get(SESSION_COOKIE_NAME)?.value;
-    if (!userId) return null;
-
     try {
-        const user = await db.query.users.findFirst({
-            where: eq(schema.users.id, userId),
-        });
-        if (!user) return null;
-        return { id: user.id, email: user.email, displayName: user.name };
+        const session = await getCurrentSession();
+        if (!session) return null;
+        const { user } = session;
+        return toAppUser(user);
     } catch {
         return null;
     }
 }
 
 
+// Authorization
+// Every action below resolves the acting user from the session cookie and
+// scopes its queries to that user; client-supplied user ids are never trusted.
+async function requireSession() {
+    const session = await getCurrentSession();
+    if (!session) throw new UnauthenticatedError();
+    return session;
+}
+
+async function requireUser() {
+    return (await requireSession()).user;
+}
+
+// Gate for features that must not be used with an unconfirmed address (sharing, exports).
+async function requireVerifiedUser() {
+    const user = await requireUser();
+    if (!user.emailVerifiedAt) {
+        throw new ForbiddenError('Please verify your email address first.');
+    }
+    return user;
+}
+
+// Resolves whose records a data action works on. Without a subject the user
+// acts on their own records; acting on someone else's needs an accepted share
+// (only `logger` shares may write) or, for clinicians, an active clinic link,
+// which is always read-only.
+async function requireAccess(subjectId: string | undefined, level: 'read' | 'write') {
+    const user = await requireUser();
+    if (!subjectId || subjectId === user.id) {
+        return { actor: user, subjectId: user.id };
+    }
+
+    const share = await db.query.shares.findFirst({
+        where: and(
+            eq(schema.shares.ownerId, subjectId),
+            eq(schema.shares.granteeId, user.id),
+            isNotNull(schema.shares.acceptedAt),
+            isNull(schema.shares.revokedAt),
+        ),
+    });
+    if (!share) {
+        if (user.role === 'clinician' && await hasActiveClinicLink(user.id, subjectId)) {
+            if (level === 'write') throw new ForbiddenError('Clinicians have read-only access to patient records.');
+            return { actor: user, subjectId };
+        }
+        throw new NotFoundError('Account not found.');
+    }
+    if (level === 'write' && share.role !== 'logger') {
+        throw new ForbiddenError('You have read-only access to this account.');
+    }
+    return { actor: user, subjectId };
+}
+
+async function hasActiveClinicLink(clinicianId: string, patientId: string) {
+    const link = await db.query.clinicLinks.findFirst({
+        where: and(
+            eq(schema.clinicLinks.clinicianId, clinicianId),
+            eq(schema.clinicLinks.patientId, patientId),
+            eq(schema.clinicLinks.status, 'active'),
+        ),
+    });
+    return !!link;
+}
+
+async function requireClinician() {
+    const user = await requireUser();
+    if (user.role !== 'clinician') {
+        throw new ForbiddenError('This area is only available to clinician accounts.');
+    }
+    return user;
+}
+
+async function assertAllOwned(ids: string[], ownedRows: Promise<{ id: string }[]>, message: string) {
+    const ownedIds = new Set((await ownedRows).map(row => row.id));
+    if (ids.some(id => !ownedIds.has(id))) {
+        throw new NotFoundError(message);
+    }
+}
+
+function toAppUser(user: typeof schema.users.$inferSelect): AppUser {
+    return {
+        id: user.id,
+        email: user.email,
+        displayName: user.name,
+        emailVerified: !!user.emailVerifiedAt,
+        role: user.role,
+        deletionScheduledAt: user.deletionScheduledAt ? user.deletionScheduledAt.toISOString() : null,
+    };
+}
+
+function toWeightEntry(entry: typeof schema.weightHistory.$inferSelect): WeightEntry {
+    return { id: entry.id, date: entry.date.toISOString(), weight: entry.weight };
+}
+
+const GLUCOSE_LOG_RELATIONS = { doses: true, tags: { with: { tag: true } } } as const;
+
+type GlucoseLogRow = typeof schema.glucoseLogs.$inferSelect & {
+    doses: (typeof schema.insulinDoses.$inferSelect)[];
+    tags: { tag: typeof schema.tags.$inferSelect }[];
+};
+
+function toGlucoseLog(log: GlucoseLogRow): GlucoseLog {
+    return {
+        id: log.id,
+        timestamp: log.timestamp.toISOString(),
+        mealType: log.mealType,
+        glycemia: log.glycemia,
+        carbs: log.carbs,
+        mealDescription: log.mealDescription,
+        notes: log.notes,
+        tags: log.tags.map(({ tag }) => tag.name).sort((a, b) => a.localeCompare(b)),
+        doses: log.doses.map(dose => ({ insulinId: dose.insulinId, units: dose.units })),
+    };
+}
+
+function toActivity(activity: typeof schema.activities.$inferSelect): Activity {
+    return {
+        id: activity.id,
+        type: activity.type,
+        startedAt: activity.startedAt.toISOString(),
+        durationMinutes: activity.durationMinutes,
+        intensity: activity.intensity,
+        calories: activity.calories,
+    };
+}
+
+function toHbA1cResult(result: typeof schema.hba1cResults.$inferSelect): HbA1cResult {
+    return {
+        id: result.id,
+        takenAt: result.takenAt.toISOString(),
+        percent: result.percent,
+        labName: result.labName,
+    };
+}
+
+function toKetoneReading(reading: typeof schema.ketoneReadings.$inferSelect): KetoneReading {
+    return { id: reading.id, takenAt: reading.takenAt.toISOString(), method: reading.method, value: reading.value };
+}
+
+function toBloodPressureReading(reading: typeof schema.bloodPressureReadings.$inferSelect): BloodPressureReading {
+    return {
+        id: reading.id,
+        takenAt: reading.takenAt.toISOString(),
+        systolic: reading.systolic,
+        diastolic: reading.diastolic,
+        pulse: reading.pulse,
+        arm: reading.arm,
+    };
+}
+
+type HypoEventRow = typeof schema.hypoEvents.$inferSelect & {
+    log: typeof schema.glucoseLogs.$inferSelect;
+    recheckLog: typeof schema.glucoseLogs.$inferSelect | null;
+};
+
+function toHypoEvent(event: HypoEventRow): HypoEvent {
+    return {
+        id: event.id,
+        logId: event.logId,
+        occurredAt: event.log.timestamp.toISOString(),
+        glycemia: event.log.glycemia,
+        symptoms: event.symptoms,
+        treatment: event.treatment,
+        treatmentCarbs: event.treatmentCarbs,
+        recheckDueAt: event.recheckDueAt.toISOString(),
+        recheckLogId: event.recheckLogId,
+        recheckGlycemia: event.recheckLog?.glycemia ?? null,
+    };
+}
+
+function toSickDayPeriod(period: typeof schema.sickDayPeriods.$inferSelect): SickDayPeriod {
+    return {
+        id: period.id,
+        startedAt: period.startedAt.toISOString(),
+        endedAt: period.endedAt ? period.endedAt.toISOString() : null,
+    };
+}
+
+function toInsulin(insulin: typeof schema.insulins.$inferSelect): Insulin {
+    return {
+        id: insulin.id,
+        name: insulin.name,
+        type: insulin.type,
+        concentration: insulin.concentration,
+        durationHours: insulin.durationHours,
+        archived: !!insulin.archivedAt,
+    };
+}
+
+function toProfileSnapshot(user: typeof schema.users.$inferSelect) {
+    return {
+        name: user.name,
+        birthdate: user.birthdate ? user.birthdate.toISOString() : null,
+        height: user.height,
+        glucoseUnit: user.glucoseUnit,
+        hypoThreshold: user.hypoThreshold,
+    };
+}
+
+// Audit trail
+// Every health record and profile mutation appends one row per record it
+// touched, with the record before and after in its client-facing shape.
+interface AuditEntry {
+    action: AuditAction;
+    entityId: string;
+    before?: object | null;
+    after?: object | null;
+}
+
+async function recordAuditEvents(actorId: string, userId: string, entityType: AuditEntityType, entries: AuditEntry[]) {
+    if (entries.length === 0) return;
+    await db.insert(schema.auditEvents).values(entries.map(entry => ({
+        id: createId('audit'),
+        userId,
+        actorId,
+        entityType,
+        action: entry.action,
+        entityId: entry.entityId,
+        before: entry.before ?? null,
+        after: entry.after ?? null,
+    })));
+}
+
+
 // User Actions
 export async function signup(email: string, password: string, name: string): Promise<AppUser> {
   const existingUser = await db.query.users.findFirst({ where: eq(schema.users.email, email) });
@@ -73,34 +406,817 @@ export async function signup(email: string, password: string, name: string): Pro
   
   const passwordHash = await hashPassword(password);
   
-  const newUser = await db.insert(schema.users).values({ id: `user_${Date.now()}`, name, email, passwordHash }).returning().then(res => res[0]);
+  const newUser = await db.insert(schema.users).values({ id: createId('user'), name, email, passwordHash }).returning().then(res => res[0]);
 
   await createSession(newUser.id);
-  
-  return { id: newUser.id, email: newUser.email, displayName: newUser.name };
+  // The account stands even if the email cannot go out; the verification
+  // banner offers to send it again.
+  try {
+    await sendVerificationEmailTo(newUser);
+  } catch (error) {
+    console.error('Could not send the verification email', error);
+  }
+
+  return toAppUser(newUser);
 }
 
-export async function login(email: string, password: string): Promise<AppUser> {
-  const user = await db.query.users.findFirst({ where: eq(schema.users.email, email) });
-  if (!user) {
+export async function login(email: string, password: string): Promise<LoginResult> {
+  const client = await getClientInfo();
+  const normalizedEmail = normalizeEmail(email);
+  const throttleKeys = [`account:${normalizedEmail}`, `ip:${client.ipAddress ?? 'unknown'}`];
+  const throttles = await db.query.loginThrottles.findMany({
+    where: inArray(schema.loginThrottles.key, throttleKeys),
+  });
+  const now = new Date();
+  const blocking = throttles.filter(t => isThrottled(t, now));
+  if (blocking.length > 0) {
+    const retryAt = new Date(Math.max(...blocking.map(t => t.lockedUntil!.getTime())));
+    return { status: 'locked', retryAt: retryAt.toISOString() };
+  }
+
+  const user = await db.query.users.findFirst({ where: eq(sql`lower(${schema.users.email})`, normalizedEmail) });
+  const isPasswordValid = user ? await verifyPassword(password, user.passwordHash) : false;
+  if (!user || !isPasswordValid) {
+    const [accountKey, ipKey] = throttleKeys;
+    const accountState = registerFailure(throttles.find(t => t.key === accountKey), ACCOUNT_THROTTLE_POLICY, now);
+    const ipState = registerFailure(throttles.find(t => t.key === ipKey), IP_THROTTLE_POLICY, now);
+    await saveThrottle(accountKey, accountState);
+    await saveThrottle(ipKey, ipState);
+
+    if (user) {
+      await recordSecurityEvent(user.id, 'login_failed', client);
+      if (accountState.lockedOut) {
+        await recordSecurityEvent(user.id, 'account_locked', client);
+      }
+    }
     throw new Error("Invalid email or password.");
   }
 
-  const isPasswordValid = await verifyPassword(password, user.passwordHash);
-  if (!isPasswordValid) {
+  // An account past its grace period is gone, even before the scheduled purge
+  // (`npm run db:purge-expired`) has erased it.
+  if (user.deletionScheduledAt && user.deletionScheduledAt <= now) {
     throw new Error("Invalid email or password.");
   }
-  
+
+  // With two-factor auth the account counter is only cleared once the second
+  // factor passes, so a known password cannot buy unlimited code guesses.
+  if (user.totpEnabledAt) {
+    await createTwoFactorChallenge(user.id);
+    return { status: 'two_factor_required' };
+  }
+
+  await db.delete(schema.loginThrottles).where(eq(schema.loginThrottles.key, throttleKeys[0]));
+  await recordSecurityEvent(user.id, 'login_succeeded', client);
   await createSession(user.id);
 
-  return { id: user.id, email: user.email, displayName: user.name };
+  return { status: 'success', user: toAppUser(user) };
 }
 
 export async function logout(): Promise<void> {
     await clearSession();
 }
 
-export async function getUserProfile(userId: string): Promise<UserProfile | null> {
+export async function getActiveSessions(): Promise<ActiveSession[]> {
+    const current = await requireSession();
+    const sessions = await db.query.sessions.findMany({
+        where: and(
+            eq(schema.sessions.userId, current.userId),
+            isNull(schema.sessions.revokedAt),
+            gt(schema.sessions.expiresAt, new Date()),
+        ),
+        orderBy: (session, { desc }) => [desc(session.lastSeenAt)],
+    });
+    return sessions.map(session => ({
+        id: session.id,
+        createdAt: session.createdAt.toISOString(),
+        lastSeenAt: session.lastSeenAt.toISOString(),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        current: session.id === current.id,
+    }));
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+    const current = await requireSession();
+    if (sessionId === current.id) {
+        await clearSession();
+        return;
+    }
+    const revoked = await db.update(schema.sessions)
+        .set({ revokedAt: new Date() })
+        .where(and(
+            eq(schema.sessions.id, sessionId),
+            eq(schema.sessions.userId, current.userId),
+            isNull(schema.sessions.revokedAt),
+        ))
+        .returning({ id: schema.sessions.id });
+    if (revoked.length === 0) throw new NotFoundError('Session not found.');
+}
+
+export async function revokeOtherSessions(): Promise<void> {
+    const current = await requireSession();
+    await revokeUserSessions(current.userId, current.id);
+}
+
+// Account Deletion Actions
+const ACCOUNT_DELETION_GRACE_MS = 1000 * 60 * 60 * 24 * 14; // 14 days
+
+export async function exportUserData(): Promise<UserDataExport> {
+  await requireVerifiedUser();
+  const [profile, insulins, glucoseLogs, weightHistory, activities, hba1cResults, ketoneReadings, sickDayPeriods, bloodPressureReadings, hypoEvents] = await Promise.all([
+    getUserProfile(),
+    getInsulins(),
+    getGlucoseLogs(),
+    getWeightHistory(),
+    getActivities(),
+    getHbA1cResults(),
+    getKetoneReadings(),
+    getSickDayPeriods(),
+    getBloodPressureReadings(),
+    getHypoEvents(),
+  ]);
+  if (!profile) throw new NotFoundError('Account not found.');
+  return { exportedAt: new Date().toISOString(), profile, insulins, glucoseLogs, weightHistory, activities, hba1cResults, ketoneReadings, sickDayPeriods, bloodPressureReadings, hypoEvents };
+}
+
+export async function deleteAccount(password: string, options: { gracePeriod: boolean }): Promise<void> {
+  const user = await requireUser();
+  if (!await verifyPassword(password, user.passwordHash)) {
+    throw new Error("Incorrect password.");
+  }
+
+  if (options.gracePeriod) {
+    await db.update(schema.users)
+      .set({ deletionScheduledAt: new Date(Date.now() + ACCOUNT_DELETION_GRACE_MS) })
+      .where(eq(schema.users.id, user.id));
+    await revokeUserSessions(user.id);
+  } else {
+    await db.delete(schema.users).where(eq(schema.users.id, user.id));
+  }
+  (await cookies()).delete(SESSION_COOKIE_NAME);
+}
+
+export async function restoreAccount(): Promise<void> {
+  const user = await requireUser();
+  await db.update(schema.users)
+    .set({ deletionScheduledAt: null })
+    .where(eq(schema.users.id, user.id));
+}
+
+
+// Two-Factor Authentication Actions
+const TWO_FACTOR_COOKIE_NAME = 'glucotrack_2fa';
+const TWO_FACTOR_CHALLENGE_TTL_MS = 1000 * 60 * 5; // 5 minutes
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+async function createTwoFactorChallenge(userId: string) {
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS);
+  await db.insert(schema.twoFactorChallenges).values({
+    id: createId('2fa'),
+    userId,
+    tokenHash: await hashToken(token),
+    expiresAt,
+  });
+  (await cookies()).set(TWO_FACTOR_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: expiresAt,
+    path: '/',
+  });
+}
+
+// Recovery codes look like `3f9a1-c04be` and are stored hashed, like tokens.
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, '');
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = generateToken(5);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await db.delete(schema.recoveryCodes).where(eq(schema.recoveryCodes.userId, userId));
+  await db.insert(schema.recoveryCodes).values(await Promise.all(codes.map(async code => ({
+    id: createId('rc'),
+    userId,
+    codeHash: await hashToken(normalizeRecoveryCode(code)),
+  }))));
+  return codes;
+}
+
+// Accepts either a current TOTP code or an unused recovery code.
+async function verifySecondFactor(user: typeof schema.users.$inferSelect, code: string): Promise<'totp' | 'recovery_code' | null> {
+  if (!user.totpSecret) return null;
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step !== null) {
+    // Each code is only good once, even within its validity window.
+    if (user.totpLastStep !== null && step <= user.totpLastStep) return null;
+    await db.update(schema.users).set({ totpLastStep: step }).where(eq(schema.users.id, user.id));
+    return 'totp';
+  }
+
+  const usedCode = await db.update(schema.recoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(schema.recoveryCodes.userId, user.id),
+      eq(schema.recoveryCodes.codeHash, await hashToken(normalizeRecoveryCode(code))),
+      isNull(schema.recoveryCodes.usedAt),
+    ))
+    .returning({ id: schema.recoveryCodes.id });
+  return usedCode.length > 0 ? 'recovery_code' : null;
+}
+
+export async function verifyTwoFactorLogin(code: string): Promise<AppUser> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(TWO_FACTOR_COOKIE_NAME)?.value;
+  const challenge = token && await db.query.twoFactorChallenges.findFirst({
+    where: and(
+      eq(schema.twoFactorChallenges.tokenHash, await hashToken(token)),
+      gt(schema.twoFactorChallenges.expiresAt, new Date()),
+    ),
+  });
+  if (!challenge) {
+    throw new Error("Your sign-in attempt has expired. Please log in again.");
+  }
+
+  const user = await db.query.users.findFirst({ where: eq(schema.users.id, challenge.userId) });
+  if (!user) {
+    throw new Error("Your sign-in attempt has expired. Please log in again.");
+  }
+
+  // Wrong codes count against the same per-account throttle as wrong passwords.
+  const throttleKey = `account:${normalizeEmail(user.email)}`;
+  const throttle = await db.query.loginThrottles.findFirst({ where: eq(schema.loginThrottles.key, throttleKey) });
+  const now = new Date();
+  if (isThrottled(throttle, now)) {
+    await db.delete(schema.twoFactorChallenges).where(eq(schema.twoFactorChallenges.id, challenge.id));
+    cookieStore.delete(TWO_FACTOR_COOKIE_NAME);
+    throw new Error("Sign-in is temporarily locked after repeated failed attempts. Please try again later.");
+  }
+
+  const client = await getClientInfo();
+  const method = await verifySecondFactor(user, code);
+  if (!method) {
+    const throttleState = registerFailure(throttle, ACCOUNT_THROTTLE_POLICY, now);
+    await saveThrottle(throttleKey, throttleState);
+    await recordSecurityEvent(user.id, 'two_factor_failed', client);
+    if (throttleState.lockedOut) {
+      await recordSecurityEvent(user.id, 'account_locked', client);
+    }
+    if (throttleState.lockedOut || challenge.attempts + 1 >= TWO_FACTOR_MAX_ATTEMPTS) {
+      await db.delete(schema.twoFactorChallenges).where(eq(schema.twoFactorChallenges.id, challenge.id));
+      cookieStore.delete(TWO_FACTOR_COOKIE_NAME);
+      throw new Error("Too many incorrect codes. Please log in again.");
+    }
+    await db.update(schema.twoFactorChallenges)
+      .set({ attempts: challenge.attempts + 1 })
+      .where(eq(schema.twoFactorChallenges.id, challenge.id));
+    throw new Error("Invalid authentication code.");
+  }
+
+  await db.delete(schema.twoFactorChallenges).where(eq(schema.twoFactorChallenges.id, challenge.id));
+  await db.delete(schema.loginThrottles).where(eq(schema.loginThrottles.key, throttleKey));
+  cookieStore.delete(TWO_FACTOR_COOKIE_NAME);
+  if (method === 'recovery_code') {
+    await recordSecurityEvent(user.id, 'recovery_code_used', client);
+  }
+  await recordSecurityEvent(user.id, 'login_succeeded', client);
+  await createSession(user.id);
+
+  return toAppUser(user);
+}
+
+export async function beginTotpEnrollment(): Promise<TotpEnrollment> {
+  const user = await requireUser();
+  if (user.totpEnabledAt) {
+    throw new Error("Two-factor authentication is already enabled.");
+  }
+  const secret = generateTotpSecret();
+  await db.update(schema.users)
+    .set({ totpSecret: secret, totpLastStep: null })
+    .where(eq(schema.users.id, user.id));
+  return {
+    secret,
+    otpauthUri: buildOtpAuthUri({ secret, accountName: user.email, issuer: 'GlucoTrack' }),
+  };
+}
+
+// Returns the recovery codes; they are only ever shown this once.
+export async function confirmTotpEnrollment(code: string): Promise<string[]> {
+  const user = await requireUser();
+  if (user.totpEnabledAt) {
+    throw new Error("Two-factor authentication is already enabled.");
+  }
+  const step = user.totpSecret ? verifyTotp(user.totpSecret, code) : null;
+  if (step === null) {
+    throw new Error("That code is not valid. Check your authenticator app and try again.");
+  }
+
+  await db.update(schema.users)
+    .set({ totpEnabledAt: new Date(), totpLastStep: step })
+    .where(eq(schema.users.id, user.id));
+  await recordSecurityEvent(user.id, 'two_factor_enabled', await getClientInfo());
+  return replaceRecoveryCodes(user.id);
+}
+
+export async function disableTotp(password: string): Promise<void> {
+  const user = await requireUser();
+  if (!await verifyPassword(password, user.passwordHash)) {
+    throw new Error("Incorrect password.");
+  }
+  await db.update(schema.users)
+    .set({ totpSecret: null, totpEnabledAt: null, totpLastStep: null })
+    .where(eq(schema.users.id, user.id));
+  await db.delete(schema.recoveryCodes).where(eq(schema.recoveryCodes.userId, user.id));
+  await recordSecurityEvent(user.id, 'two_factor_disabled', await getClientInfo());
+}
+
+
+// Password Reset Actions
+const PASSWORD_RESET_TTL_MS = 1000 * 60 * 60; // 1 hour
+
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await db.query.users.findFirst({ where: eq(schema.users.email, email) });
+  // Respond identically whether or not the account exists.
+  if (!user) return;
+
+  const token = generateToken();
+  await db.insert(schema.passwordResetTokens).values({
+    id: createId('reset'),
+    userId: user.id,
+    tokenHash: await hashToken(token),
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+  });
+
+  const resetUrl = `${await getAppUrl()}/reset-password?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your GlucoTrack password',
+    text: `Hi ${user.name},\n\nSomeone asked to reset the password of your GlucoTrack account. Open the link below within the next hour to choose a new one:\n\n${resetUrl}\n\nIf you did not ask for this, you can ignore this email.`,
+  });
+}
+
+export async function resetPassword(token: string, newPassword: string): Promise<void> {
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+
+  const now = new Date();
+  // Claiming the token and checking it happen in one statement so a link can only be used once.
+  const claimed = await db.update(schema.passwordResetTokens)
+    .set({ usedAt: now })
+    .where(and(
+      eq(schema.passwordResetTokens.tokenHash, await hashToken(token)),
+      isNull(schema.passwordResetTokens.usedAt),
+      gt(schema.passwordResetTokens.expiresAt, now),
+    ))
+    .returning()
+    .then(res => res[0]);
+  if (!claimed) {
+    throw new Error("This reset link is invalid or has expired.");
+  }
+
+  await db.update(schema.users)
+    .set({ passwordHash: await hashPassword(newPassword) })
+    .where(eq(schema.users.id, claimed.userId));
+
+  // Any other outstanding links and every signed-in device stop working.
+  await db.update(schema.passwordResetTokens)
+    .set({ usedAt: now })
+    .where(and(eq(schema.passwordResetTokens.userId, claimed.userId), isNull(schema.passwordResetTokens.usedAt)));
+  await revokeUserSessions(claimed.userId);
+}
+
+// Email Verification Actions
+const EMAIL_VERIFICATION_TTL_MS = 1000 * 60 * 60 * 24; // 24 hours
+
+async function sendVerificationEmailTo(user: { id: string; name: string; email: string }) {
+  const token = generateToken();
+  await db.insert(schema.emailVerificationTokens).values({
+    id: createId('verify'),
+    userId: user.id,
+    email: user.email,
+    tokenHash: await hashToken(token),
+    expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+  });
+
+  const verifyUrl = `${await getAppUrl()}/verify-email?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your GlucoTrack email address',
+    text: `Hi ${user.name},\n\nPlease confirm that ${user.email} is your email address by opening the link below within 24 hours:\n\n${verifyUrl}\n\nIf you did not create a GlucoTrack account, you can ignore this email.`,
+  });
+}
+
+export async function resendVerificationEmail(): Promise<void> {
+  const user = await requireUser();
+  if (user.emailVerifiedAt) return;
+  await sendVerificationEmailTo(user);
+}
+
+export async function verifyEmail(token: string): Promise<void> {
+  const now = new Date();
+  const claimed = await db.update(schema.emailVerificationTokens)
+    .set({ usedAt: now })
+    .where(and(
+      eq(schema.emailVerificationTokens.tokenHash, await hashToken(token)),
+      isNull(schema.emailVerificationTokens.usedAt),
+      gt(schema.emailVerificationTokens.expiresAt, now),
+    ))
+    .returning()
+    .then(res => res[0]);
+  if (!claimed) {
+    throw new Error("This verification link is invalid or has expired.");
+  }
+
+  // A link only confirms the address it was sent to.
+  const verified = await db.update(schema.users)
+    .set({ emailVerifiedAt: now })
+    .where(and(eq(schema.users.id, claimed.userId), eq(schema.users.email, claimed.email)))
+    .returning({ id: schema.users.id });
+  if (verified.length === 0) {
+    throw new Error("This verification link is no longer valid for your account.");
+  }
+}
+
+export async function getSecurityEvents(): Promise<SecurityEvent[]> {
+  const { id: userId } = await requireUser();
+  const events = await db.query.securityEvents.findMany({
+    where: eq(schema.securityEvents.userId, userId),
+    orderBy: (event, { desc }) => [desc(event.createdAt)],
+    limit: 20,
+  });
+  return events.map(e => ({
+    id: e.id,
+    type: e.type,
+    ipAddress: e.ipAddress,
+    userAgent: e.userAgent,
+    createdAt: e.createdAt.toISOString(),
+  }));
+}
+
+export async function getOutboxMessages(): Promise<OutboxMessage[]> {
+  if (process.env.NODE_ENV === 'production' || !isOutboxTransport()) {
+    throw new ForbiddenError('The mail outbox is only available in development.');
+  }
+  const messages = await db.query.mailOutbox.findMany({
+    orderBy: (message, { desc }) => [desc(message.createdAt)],
+    limit: 50,
+  });
+  return messages.map(m => ({ ...m, createdAt: m.createdAt.toISOString() }));
+}
+
+// Sharing Actions
+const SHARE_INVITATION_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+export async function getShares(): Promise<Share[]> {
+  const user = await requireUser();
+  const shares = await db.query.shares.findMany({
+    where: and(eq(schema.shares.ownerId, user.id), isNull(schema.shares.revokedAt)),
+    with: { grantee: true },
+    orderBy: (share, { desc }) => [desc(share.createdAt)],
+  });
+  const now = new Date();
+  return shares
+    .filter(share => share.acceptedAt || share.expiresAt > now)
+    .map(share => ({
+      id: share.id,
+      email: share.email,
+      role: share.role,
+      status: share.acceptedAt ? 'active' : 'pending',
+      granteeName: share.grantee?.name ?? null,
+      createdAt: share.createdAt.toISOString(),
+    }));
+}
+
+export async function getSharedWithMe(): Promise<SharedAccount[]> {
+  const user = await requireUser();
+  const shares = await db.query.shares.findMany({
+    where: and(
+      eq(schema.shares.granteeId, user.id),
+      isNotNull(schema.shares.acceptedAt),
+      isNull(schema.shares.revokedAt),
+    ),
+    with: { owner: true },
+  });
+  return shares.map(share => ({
+    shareId: share.id,
+    ownerId: share.ownerId,
+    name: share.owner.name,
+    email: share.owner.email,
+    role: share.role,
+    hypoThreshold: share.owner.hypoThreshold,
+  }));
+}
+
+export async function inviteCaregiver(inviteeEmail: string, role: ShareRole): Promise<void> {
+  const user = await requireVerifiedUser();
+  const email = normalizeEmail(inviteeEmail);
+  if (email === normalizeEmail(user.email)) {
+    throw new Error("You cannot share your records with yourself.");
+  }
+
+  const token = generateToken();
+  await db.insert(schema.shares).values({
+    id: createId('share'),
+    ownerId: user.id,
+    email,
+    role,
+    tokenHash: await hashToken(token),
+    expiresAt: new Date(Date.now() + SHARE_INVITATION_TTL_MS),
+  });
+
+  const acceptUrl = `${await getAppUrl()}/share/accept?token=${token}`;
+  const access = role === 'logger' ? 'view and add to' : 'view';
+  await sendMail({
+    to: email,
+    subject: `${user.name} shared their GlucoTrack records with you`,
+    text: `Hi,\n\n${user.name} (${user.email}) invited you to ${access} their glucose and weight records on GlucoTrack. Sign in or create an account with this email address, then open the link below within 7 days to accept:\n\n${acceptUrl}`,
+  });
+}
+
+export async function acceptShareInvitation(token: string): Promise<SharedAccount> {
+  const user = await requireUser();
+  const share = await db.query.shares.findFirst({
+    where: and(
+      eq(schema.shares.tokenHash, await hashToken(token)),
+      isNull(schema.shares.acceptedAt),
+      isNull(schema.shares.revokedAt),
+      gt(schema.shares.expiresAt, new Date()),
+    ),
+    with: { owner: true },
+  });
+  if (!share) {
+    throw new Error("This invitation is invalid or has expired.");
+  }
+  if (normalizeEmail(share.email) !== normalizeEmail(user.email)) {
+    throw new ForbiddenError(`This invitation was sent to ${share.email}. Sign in with that address to accept it.`);
+  }
+  if (share.ownerId === user.id) {
+    throw new Error("You cannot accept your own invitation.");
+  }
+
+  // Accepting again from someone who already has access replaces the old grant.
+  await db.update(schema.shares)
+    .set({ revokedAt: new Date() })
+    .where(and(
+      eq(schema.shares.ownerId, share.ownerId),
+      eq(schema.shares.granteeId, user.id),
+      isNull(schema.shares.revokedAt),
+    ));
+  await db.update(schema.shares)
+    .set({ granteeId: user.id, acceptedAt: new Date(), tokenHash: null })
+    .where(eq(schema.shares.id, share.id));
+
+  return {
+    shareId: share.id,
+    ownerId: share.ownerId,
+    name: share.owner.name,
+    email: share.owner.email,
+    role: share.role,
+    hypoThreshold: share.owner.hypoThreshold,
+  };
+}
+
+export async function updateShareRole(shareId: string, role: ShareRole): Promise<void> {
+  const user = await requireUser();
+  const updated = await db.update(schema.shares)
+    .set({ role })
+    .where(and(eq(schema.shares.id, shareId), eq(schema.shares.ownerId, user.id), isNull(schema.shares.revokedAt)))
+    .returning({ id: schema.shares.id });
+  if (updated.length === 0) throw new NotFoundError('Share not found.');
+}
+
+// Either side can end a share: the owner revokes it, the grantee leaves it.
+export async function revokeShare(shareId: string): Promise<void> {
+  const user = await requireUser();
+  const revoked = await db.update(schema.shares)
+    .set({ revokedAt: new Date(), tokenHash: null })
+    .where(and(
+      eq(schema.shares.id, shareId),
+      or(eq(schema.shares.ownerId, user.id), eq(schema.shares.granteeId, user.id)),
+      isNull(schema.shares.revokedAt),
+    ))
+    .returning({ id: schema.shares.id });
+  if (revoked.length === 0) throw new NotFoundError('Share not found.');
+}
+
+
+// Clinic Actions
+const CLINIC_SUMMARY_DAYS = 14;
+
+export async function setAccountRole(role: UserRole): Promise<AppUser> {
+  const user = await requireUser();
+  const updatedUser = await db.update(schema.users)
+    .set({ role })
+    .where(eq(schema.users.id, user.id))
+    .returning()
+    .then(res => res[0]);
+  // Patient links stay in place, but requireAccess ignores them while the role is off.
+  return toAppUser(updatedUser);
+}
+
+export async function requestPatientLink(patientEmail: string): Promise<void> {
+  const clinician = await requireClinician();
+  const patient = await db.query.users.findFirst({ where: eq(schema.users.email, patientEmail) });
+  // Answer the same way for unknown addresses so accounts cannot be probed.
+  if (!patient || patient.id === clinician.id) return;
+
+  const existing = await db.query.clinicLinks.findFirst({
+    where: and(
+      eq(schema.clinicLinks.clinicianId, clinician.id),
+      eq(schema.clinicLinks.patientId, patient.id),
+      inArray(schema.clinicLinks.status, ['pending', 'active']),
+    ),
+  });
+  if (existing) return;
+
+  await db.insert(schema.clinicLinks).values({
+    id: createId('clinic'),
+    clinicianId: clinician.id,
+    patientId: patient.id,
+  });
+  await sendMail({
+    to: patient.email,
+    subject: `${clinician.name} asked to follow your GlucoTrack records`,
+    text: `Hi ${patient.name},\n\n${clinician.name} (${clinician.email}) would like read-only access to your glucose and weight records. You can approve or decline the request from your profile page:\n\n${await getAppUrl()}/profile\n\nNothing is shared until you approve it.`,
+  });
+}
+
+export async function getClinicLinks(): Promise<{ asPatient: ClinicLink[]; asClinician: ClinicLink[] }> {
+  const user = await requireUser();
+  const links = await db.query.clinicLinks.findMany({
+    where: and(
+      or(eq(schema.clinicLinks.patientId, user.id), eq(schema.clinicLinks.clinicianId, user.id)),
+      inArray(schema.clinicLinks.status, ['pending', 'active']),
+    ),
+    with: { clinician: true, patient: true },
+    orderBy: (link, { desc }) => [desc(link.createdAt)],
+  });
+  const toClinicLink = (link: typeof links[number], other: typeof schema.users.$inferSelect): ClinicLink => ({
+    id: link.id,
+    name: other.name,
+    email: other.email,
+    status: link.status,
+    createdAt: link.createdAt.toISOString(),
+  });
+  return {
+    asPatient: links.filter(link => link.patientId === user.id).map(link => toClinicLink(link, link.clinician)),
+    asClinician: links.filter(link => link.clinicianId === user.id).map(link => toClinicLink(link, link.patient)),
+  };
+}
+
+export async function respondToClinicLink(linkId: string, approve: boolean): Promise<void> {
+  const user = await requireUser();
+  const updated = await db.update(schema.clinicLinks)
+    .set({ status: approve ? 'active' : 'declined', respondedAt: new Date() })
+    .where(and(
+      eq(schema.clinicLinks.id, linkId),
+      eq(schema.clinicLinks.patientId, user.id),
+      eq(schema.clinicLinks.status, 'pending'),
+    ))
+    .returning({ id: schema.clinicLinks.id });
+  if (updated.length === 0) throw new NotFoundError('Request not found.');
+}
+
+// Either the patient or the clinician can end a link.
+export async function revokeClinicLink(linkId: string): Promise<void> {
+  const user = await requireUser();
+  const revoked = await db.update(schema.clinicLinks)
+    .set({ status: 'revoked', respondedAt: new Date() })
+    .where(and(
+      eq(schema.clinicLinks.id, linkId),
+      or(eq(schema.clinicLinks.patientId, user.id), eq(schema.clinicLinks.clinicianId, user.id)),
+      inArray(schema.clinicLinks.status, ['pending', 'active']),
+    ))
+    .returning({ id: schema.clinicLinks.id });
+  if (revoked.length === 0) throw new NotFoundError('Link not found.');
+}
+
+export async function getClinicPatients(): Promise<ClinicPatientSummary[]> {
+  const clinician = await requireClinician();
+  const links = await db.query.clinicLinks.findMany({
+    where: and(eq(schema.clinicLinks.clinicianId, clinician.id), eq(schema.clinicLinks.status, 'active')),
+    with: { patient: true },
+  });
+  if (links.length === 0) return [];
+
+  const since = new Date(Date.now() - CLINIC_SUMMARY_DAYS * 24 * 60 * 60 * 1000);
+  const patientIds = links.map(link => link.patientId);
+  const [recentLogs, latestLogs] = await Promise.all([
+    db.query.glucoseLogs.findMany({
+      where: and(inArray(schema.glucoseLogs.userId, patientIds), isNull(schema.glucoseLogs.deletedAt), gte(schema.glucoseLogs.timestamp, since)),
+      columns: { userId: true, glycemia: true },
+    }),
+    db.selectDistinctOn([schema.glucoseLogs.userId], {
+      userId: schema.glucoseLogs.userId,
+      glycemia: schema.glucoseLogs.glycemia,
+      timestamp: schema.glucoseLogs.timestamp,
+    })
+      .from(schema.glucoseLogs)
+      .where(and(inArray(schema.glucoseLogs.userId, patientIds), isNull(schema.glucoseLogs.deletedAt)))
+      .orderBy(schema.glucoseLogs.userId, desc(schema.glucoseLogs.timestamp)),
+  ]);
+
+  return links
+    .map(({ patient }) => {
+      const summary = summarizeGlucose(recentLogs.filter(log => log.userId === patient.id));
+      const latest = latestLogs.find(log => log.userId === patient.id);
+      return {
+        patientId: patient.id,
+        name: patient.name,
+        email: patient.email,
+        latestReading: latest ? { glycemia: latest.glycemia, timestamp: latest.timestamp.toISOString() } : null,
+        average14d: summary.average,
+        timeInRange14d: summary.timeInRange,
+        readingCount14d: summary.count,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getClinicPatient(patientId: string): Promise<{ name: string; email: string }> {
+  const clinician = await requireClinician();
+  if (!await hasActiveClinicLink(clinician.id, patientId)) {
+    throw new NotFoundError('Patient not found.');
+  }
+  const patient = await db.query.users.findFirst({ where: eq(schema.users.id, patientId) });
+  if (!patient) throw new NotFoundError('Patient not found.');
+  return { name: patient.name, email: patient.email };
+}
+
+
+// Credential Actions
+// Changing a credential keeps the current device signed in and signs out all others.
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  const session = await requireSession();
+  const { user } = session;
+  if (!await verifyPassword(currentPassword, user.passwordHash)) {
+    throw new Error("Your current password is incorrect.");
+  }
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+
+  await db.update(schema.users)
+    .set({ passwordHash: await hashPassword(newPassword) })
+    .where(eq(schema.users.id, user.id));
+  await revokeUserSessions(user.id, session.id);
+  await recordSecurityEvent(user.id, 'password_changed', await getClientInfo());
+}
+
+export async function changeEmail(newEmail: string, currentPassword: string): Promise<AppUser> {
+  const session = await requireSession();
+  const { user } = session;
+  if (!await verifyPassword(currentPassword, user.passwordHash)) {
+    throw new Error("Your current password is incorrect.");
+  }
+  const parsed = z.string().trim().toLowerCase().email().safeParse(newEmail);
+  if (!parsed.success) {
+    throw new Error("Invalid email address.");
+  }
+  const email = parsed.data;
+  if (email === normalizeEmail(user.email)) {
+    throw new Error("This is already your email address.");
+  }
+  const existingUser = await db.query.users.findFirst({ where: eq(sql`lower(${schema.users.email})`, email) });
+  if (existingUser) {
+    throw new Error("An account with this email already exists.");
+  }
+
+  const updatedUser = await db.update(schema.users)
+    .set({ email, emailVerifiedAt: null })
+    .where(eq(schema.users.id, user.id))
+    .returning()
+    .then(res => res[0]);
+
+  await revokeUserSessions(user.id, session.id);
+  await recordSecurityEvent(user.id, 'email_changed', await getClientInfo());
+  // The change has happened by now; a failed email must not report otherwise.
+  try {
+    await sendMail({
+      to: user.email,
+      subject: 'Your GlucoTrack email address was changed',
+      text: `Hi ${user.name},\n\nThe email address of your GlucoTrack account was changed to ${email}. If you did not do this, reset your password right away and contact support.`,
+    });
+  } catch (error) {
+    console.error('Could not send the email change notice', error);
+  }
+  try {
+    await sendVerificationEmailTo(updatedUser);
+  } catch (error) {
+    console.error('Could not send the verification email', error);
+  }
+
+  return toAppUser(updatedUser);
+}
+
+export async function getUserProfile(): Promise<UserProfile | null> {
+  const { id: userId } = await requireUser();
   const user = await db.query.users.findFirst({
     where: eq(schema.users.id, userId),
   });
@@ -112,14 +1228,27 @@ export async function getUserProfile(userId: string): Promise<UserProfile | null
     email: user.email,
     birthdate: user.birthdate ? user.birthdate.toISOString() : null,
     height: user.height,
+    glucoseUnit: user.glucoseUnit,
+    hypoThreshold: user.hypoThreshold,
+    twoFactorEnabled: !!user.totpEnabledAt,
   };
 }
 
-export async function updateUserProfile(userId: string, data: Partial<Omit<UserProfile, 'id' | 'email'>>): Promise<UserProfile | null> {
+export async function updateUserProfile(data: Partial<Omit<UserProfile, 'id' | 'email'>>): Promise<UserProfile | null> {
+    const user = await requireUser();
+    const userId = user.id;
     const updateData: Partial<typeof schema.users.$inferInsert> = {
         name: data.name,
         height: data.height,
         birthdate: data.birthdate ? new Date(data.birthdate) : undefined,
+        glucoseUnit: data.glucoseUnit,
+        hypoThreshold: data.hypoThreshold,
+    }
+    if (data.glucoseUnit && !(data.glucoseUnit in GLUCOSE_UNITS)) {
+        throw new Error('Unsupported glucose unit.');
+    }
+    if (data.hypoThreshold !== undefined && !(data.hypoThreshold >= HYPO_THRESHOLD_LIMITS.min && data.hypoThreshold <= HYPO_THRESHOLD_LIMITS.max)) {
+        throw new Error(`Hypo threshold must be between ${HYPO_THRESHOLD_LIMITS.min} and ${HYPO_THRESHOLD_LIMITS.max} g/L.`);
     }
 
     const updatedUser = await db.update(schema.users)
@@ -129,86 +1258,783 @@ export async function updateUserProfile(userId: string, data: Partial<Omit<UserP
         .then(res => res[0]);
 
     if (!updatedUser) return null;
-    
-    return getUserProfile(userId);
+    await recordAuditEvents(userId, userId, 'profile', [
+        { action: 'update', entityId: userId, before: toProfileSnapshot(user), after: toProfileSnapshot(updatedUser) },
+    ]);
+
+    return getUserProfile();
 }
 
 
 // Weight History Actions
-export async function getWeightHistory(userId: string): Promise<WeightEntry[]> {
+export async function getWeightHistory(subjectId?: string): Promise<WeightEntry[]> {
+  const { subjectId: userId } = await requireAccess(subjectId, 'read');
   const entries = await db.query.weightHistory.findMany({
-    where: eq(schema.weightHistory.userId, userId),
+    where: and(eq(schema.weightHistory.userId, userId), isNull(schema.weightHistory.deletedAt)),
     orderBy: (entry, { desc }) => [desc(entry.date)],
   });
 
-  return entries.map(e => ({ ...e, date: e.date.toISOString(), id: e.id as string }));
+  return entries.map(toWeightEntry);
 }
 
-export async function addWeightEntry(userId: string, data: Omit<WeightEntry, 'id'>): Promise<WeightEntry> {
-    const newEntry = await db.insert(schema.weightHistory).values({ id: `weight_${Date.now()}`, userId, ...data, date: new Date(data.date) }).returning().then(res => res[0]);
-    return { ...newEntry, date: newEntry.date.toISOString(), id: newEntry.id as string };
+export async function addWeightEntry(data: Omit<WeightEntry, 'id'>, subjectId?: string): Promise<WeightEntry> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const newEntry = await db.insert(schema.weightHistory).values({ id: createId('weight'), userId, weight: data.weight, date: new Date(data.date) }).returning().then(res => res[0]);
+    await recordAuditEvents(actor.id, userId, 'weight_entry', [{ action: 'create', entityId: newEntry.id, after: toWeightEntry(newEntry) }]);
+    return toWeightEntry(newEntry);
 }
 
-export async function updateWeightEntry(entry: WeightEntry): Promise<WeightEntry> {
+export async function updateWeightEntry(entry: WeightEntry, subjectId?: string): Promise<WeightEntry> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const owned = and(eq(schema.weightHistory.id, entry.id), eq(schema.weightHistory.userId, userId), isNull(schema.weightHistory.deletedAt));
+    const previous = await db.query.weightHistory.findFirst({ where: owned });
+    if (!previous) throw new NotFoundError('Weight entry not found.');
     const updatedEntry = await db.update(schema.weightHistory)
         .set({ weight: entry.weight, date: new Date(entry.date) })
-        .where(eq(schema.weightHistory.id, entry.id))
+        .where(owned)
         .returning().then(res => res[0]);
-    return { ...updatedEntry, date: updatedEntry.date.toISOString(), id: updatedEntry.id as string };
+    if (!updatedEntry) throw new NotFoundError('Weight entry not found.');
+    await recordAuditEvents(actor.id, userId, 'weight_entry', [
+        { action: 'update', entityId: entry.id, before: toWeightEntry(previous), after: toWeightEntry(updatedEntry) },
+    ]);
+    return toWeightEntry(updatedEntry);
 }
 
-export async function deleteWeightEntry(id: string): Promise<void> {
-    await db.delete(schema.weightHistory).where(eq(schema.weightHistory.id, id));
+// Deleting moves an entry to the trash; see the Trash Actions below.
+export async function deleteWeightEntry(id: string, subjectId?: string): Promise<void> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const deleted = await db.update(schema.weightHistory)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(schema.weightHistory.id, id), eq(schema.weightHistory.userId, userId), isNull(schema.weightHistory.deletedAt)))
+        .returning();
+    if (deleted.length === 0) throw new NotFoundError('Weight entry not found.');
+    await recordAuditEvents(actor.id, userId, 'weight_entry', [{ action: 'delete', entityId: id, before: toWeightEntry(deleted[0]) }]);
 }
 
-export async function deleteMultipleWeightEntries(ids: string[]): Promise<void> {
+export async function deleteMultipleWeightEntries(ids: string[], subjectId?: string): Promise<void> {
     if (ids.length === 0) return;
-    await db.delete(schema.weightHistory).where(inArray(schema.weightHistory.id, ids));
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const owned = and(inArray(schema.weightHistory.id, ids), eq(schema.weightHistory.userId, userId), isNull(schema.weightHistory.deletedAt));
+    await assertAllOwned(ids, db.select({ id: schema.weightHistory.id }).from(schema.weightHistory).where(owned), 'Weight entry not found.');
+    const deleted = await db.update(schema.weightHistory).set({ deletedAt: new Date() }).where(owned).returning();
+    await recordAuditEvents(actor.id, userId, 'weight_entry', deleted.map(entry => (
+        { action: 'delete' as const, entityId: entry.id, before: toWeightEntry(entry) }
+    )));
+}
+
+
+// Insulin Catalog Actions
+// The catalog belongs to its owner: anyone who can read the records sees it
+// (to label doses), but only the owner manages it.
+function validateInsulin(data: Omit<Insulin, 'id' | 'archived'>) {
+    if (!data.name.trim()) throw new Error('Insulin name is required.');
+    if (!Number.isInteger(data.concentration) || data.concentration <= 0) throw new Error('Concentration must be a whole number of units per mL.');
+    if (data.durationHours !== null && data.durationHours <= 0) throw new Error('Duration of action must be positive.');
+}
+
+export async function getInsulins(subjectId?: string): Promise<Insulin[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
+    const insulins = await db.query.insulins.findMany({
+        where: eq(schema.insulins.userId, userId),
+        orderBy: (insulin, { asc }) => [asc(insulin.name)],
+    });
+    return insulins.map(toInsulin);
+}
+
+export async function addInsulin(data: Omit<Insulin, 'id' | 'archived'>): Promise<Insulin> {
+    const user = await requireUser();
+    validateInsulin(data);
+    const insulin = await db.insert(schema.insulins)
+        .values({ id: createId('insulin'), userId: user.id, ...data, name: data.name.trim() })
+        .returning().then(res => res[0]);
+    return toInsulin(insulin);
+}
+
+export async function updateInsulin(insulin: Omit<Insulin, 'archived'>): Promise<Insulin> {
+    const user = await requireUser();
+    validateInsulin(insulin);
+    const updated = await db.update(schema.insulins)
+        .set({ name: insulin.name.trim(), type: insulin.type, concentration: insulin.concentration, durationHours: insulin.durationHours })
+        .where(and(eq(schema.insulins.id, insulin.id), eq(schema.insulins.userId, user.id)))
+        .returning().then(res => res[0]);
+    if (!updated) throw new NotFoundError('Insulin not found.');
+    return toInsulin(updated);
+}
+
+// Past doses keep pointing at the product, so it is archived rather than deleted.
+export async function archiveInsulin(id: string): Promise<void> {
+    const user = await requireUser();
+    const archived = await db.update(schema.insulins)
+        .set({ archivedAt: new Date() })
+        .where(and(eq(schema.insulins.id, id), eq(schema.insulins.userId, user.id)))
+        .returning({ id: schema.insulins.id });
+    if (archived.length === 0) throw new NotFoundError('Insulin not found.');
+}
+
+// Replaces the injections recorded with a log. Doses must use the log owner's
+// insulins (a caregiver cannot log against their own catalog), and archived
+// products only where the log already recorded them.
+async function replaceInsulinDoses(database: VercelPgDatabase<typeof schema>, logId: string, userId: string, doses: InsulinDose[], previousDoses: { insulinId: string }[] = []) {
+    if (doses.some(dose => !(dose.units > 0))) throw new Error('Each injection needs a positive number of units.');
+    const previousIds = new Set(previousDoses.map(dose => dose.insulinId));
+    const insulinIds = [...new Set(doses.map(dose => dose.insulinId))];
+    if (insulinIds.length > 0) {
+        const usable = database.select({ id: schema.insulins.id, archivedAt: schema.insulins.archivedAt })
+            .from(schema.insulins)
+            .where(and(inArray(schema.insulins.id, insulinIds), eq(schema.insulins.userId, userId)))
+            .then(rows => rows.filter(row => !row.archivedAt || previousIds.has(row.id)));
+        await assertAllOwned(insulinIds, usable, 'Insulin not found.');
+    }
+    await database.delete(schema.insulinDoses).where(eq(schema.insulinDoses.logId, logId));
+    if (doses.length === 0) return [];
+    return database.insert(schema.insulinDoses)
+        .values(doses.map(dose => ({ id: createId('dose'), logId, insulinId: dose.insulinId, units: dose.units })))
+        .returning();
 }
 
 
 // Glucose Log Actions
-export async function getGlucoseLogs(userId: string): Promise<GlucoseLog[]> {
+function validateGlucoseLog(data: Pick<GlucoseLog, 'carbs' | 'mealDescription' | 'notes'>) {
+    if (data.carbs !== null && !(data.carbs >= 0)) throw new Error('Carbohydrates must be 0 g or more.');
+    if (data.mealDescription && data.mealDescription.length > MAX_MEAL_DESCRIPTION_LENGTH) {
+        throw new Error(`Meal description must be at most ${MAX_MEAL_DESCRIPTION_LENGTH} characters.`);
+    }
+    if (data.notes && data.notes.length > MAX_NOTES_LENGTH) {
+        throw new Error(`Notes must be at most ${MAX_NOTES_LENGTH} characters.`);
+    }
+}
+
+// Trims and de-duplicates tag names case-insensitively, keeping the first spelling.
+function normalizeTagNames(names: string[]): string[] {
+    const byKey = new Map<string, string>();
+    for (const raw of names) {
+        const name = raw.trim().replace(/\s+/g, ' ');
+        if (!name) continue;
+        if (name.length > MAX_TAG_LENGTH) throw new Error(`Tags must be at most ${MAX_TAG_LENGTH} characters.`);
+        if (!byKey.has(name.toLowerCase())) byKey.set(name.toLowerCase(), name);
+    }
+    if (byKey.size > MAX_TAGS_PER_LOG) throw new Error(`A log can have at most ${MAX_TAGS_PER_LOG} tags.`);
+    return [...byKey.values()];
+}
+
+// Links a log to the owner's tags with these names, creating missing ones
+// (an existing tag's spelling wins) and dropping tags no log uses any more.
+async function replaceLogTags(database: VercelPgDatabase<typeof schema>, logId: string, userId: string, names: string[]) {
+    const normalized = normalizeTagNames(names);
+    const existing = normalized.length === 0 ? [] : await database.select().from(schema.tags).where(and(
+        eq(schema.tags.userId, userId),
+        inArray(sql`lower(${schema.tags.name})`, normalized.map(name => name.toLowerCase())),
+    ));
+    const existingKeys = new Set(existing.map(tag => tag.name.toLowerCase()));
+    const created = normalized.some(name => !existingKeys.has(name.toLowerCase()))
+        ? await database.insert(schema.tags)
+            .values(normalized.filter(name => !existingKeys.has(name.toLowerCase())).map(name => ({ id: createId('tag'), userId, name })))
+            .returning()
+        : [];
+    const logTags = [...existing, ...created];
+
+    await database.delete(schema.glucoseLogTags).where(eq(schema.glucoseLogTags.logId, logId));
+    if (logTags.length > 0) {
+        await database.insert(schema.glucoseLogTags).values(logTags.map(tag => ({ logId, tagId: tag.id })));
+    }
+    await pruneUnusedTags(userId, database);
+    return logTags.map(tag => ({ tag }));
+}
+
+async function pruneUnusedTags(userId: string, database: VercelPgDatabase<typeof schema> = db) {
+    await database.delete(schema.tags).where(and(
+        eq(schema.tags.userId, userId),
+        notExists(database.select().from(schema.glucoseLogTags).where(eq(schema.glucoseLogTags.tagId, schema.tags.id))),
+    ));
+}
+
+export async function getGlucoseLogs(subjectId?: string): Promise<GlucoseLog[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
     const logs = await db.query.glucoseLogs.findMany({
-        where: eq(schema.glucoseLogs.userId, userId),
+        where: and(eq(schema.glucoseLogs.userId, userId), isNull(schema.glucoseLogs.deletedAt)),
+        with: GLUCOSE_LOG_RELATIONS,
         orderBy: (log, { desc }) => [desc(log.timestamp)],
     });
-    return logs.map(l => ({
-        ...l,
-        timestamp: l.timestamp.toISOString(),
-        id: l.id,
-    }));
+    return logs.map(toGlucoseLog);
 }
 
-export async function addGlucoseLog(userId: string, data: Omit<GlucoseLog, 'id'>): Promise<GlucoseLog> {
+export async function addGlucoseLog(data: Omit<GlucoseLog, 'id'>, subjectId?: string): Promise<GlucoseLog> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateGlucoseLog(data);
     const timestamp = new Date(data.timestamp);
     
-    const newLog = await db.insert(schema.glucoseLogs)
-        .values({ id: `gl_${Date.now()}`, userId, ...data, timestamp })
-        .returning()
-        .then(res => res[0]);
+    const { newLog, doses, tags } = await db.transaction(async tx => {
+        const newLog = await tx.insert(schema.glucoseLogs)
+            .values({
+                id: createId('gl'),
+                userId,
+                glycemia: data.glycemia,
+                mealType: data.mealType,
+                carbs: data.carbs,
+                mealDescription: data.mealDescription?.trim() || null,
+                notes: data.notes?.trim() || null,
+                timestamp,
+            })
+            .returning()
+            .then(res => res[0]);
+        const doses = await replaceInsulinDoses(tx, newLog.id, userId, data.doses);
+        const tags = await replaceLogTags(tx, newLog.id, userId, data.tags);
+        return { newLog, doses, tags };
+    });
+
+    const created = toGlucoseLog({ ...newLog, doses, tags });
+    await recordAuditEvents(actor.id, userId, 'glucose_log', [{ action: 'create', entityId: newLog.id, after: created }]);
+    await linkHypoRecheck(actor.id, userId, newLog);
+    return created;
+}
+
+export async function updateGlucoseLog(log: GlucoseLog, subjectId?: string): Promise<GlucoseLog> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const owned = and(eq(schema.glucoseLogs.id, log.id), eq(schema.glucoseLogs.userId, userId), isNull(schema.glucoseLogs.deletedAt));
+    const previous = await db.query.glucoseLogs.findFirst({ where: owned, with: GLUCOSE_LOG_RELATIONS });
+    if (!previous) throw new NotFoundError('Glucose log not found.');
+    validateGlucoseLog(log);
+    normalizeTagNames(log.tags);
+    // The doses and tags only change if the log row does.
+    const { updatedLog, doses, tags } = await db.transaction(async tx => {
+        const doses = await replaceInsulinDoses(tx, log.id, userId, log.doses, previous.doses);
+        const tags = await replaceLogTags(tx, log.id, userId, log.tags);
+        const updatedLog = await tx.update(schema.glucoseLogs)
+            .set({
+                glycemia: log.glycemia,
+                mealType: log.mealType,
+                carbs: log.carbs,
+                mealDescription: log.mealDescription?.trim() || null,
+                notes: log.notes?.trim() || null,
+                timestamp: new Date(log.timestamp),
+            })
+            .where(owned)
+            .returning().then(res => res[0]);
+        if (!updatedLog) throw new NotFoundError('Glucose log not found.');
+        return { updatedLog, doses, tags };
+    });
+    const updated = toGlucoseLog({ ...updatedLog, doses, tags });
+    await recordAuditEvents(actor.id, userId, 'glucose_log', [
+        { action: 'update', entityId: log.id, before: toGlucoseLog(previous), after: updated },
+    ]);
+    return updated;
+}
+
+// Deleting moves a log to the trash, keeping its doses, tags and hypo event
+// for a restore; see the Trash Actions below.
+export async function deleteGlucoseLog(id: string, subjectId?: string): Promise<void> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const owned = and(eq(schema.glucoseLogs.id, id), eq(schema.glucoseLogs.userId, userId), isNull(schema.glucoseLogs.deletedAt));
+    const log = await db.query.glucoseLogs.findFirst({ where: owned, with: GLUCOSE_LOG_RELATIONS });
+    if (!log) throw new NotFoundError('Glucose log not found.');
+    await db.update(schema.glucoseLogs).set({ deletedAt: new Date() }).where(owned);
+    await recordAuditEvents(actor.id, userId, 'glucose_log', [{ action: 'delete', entityId: id, before: toGlucoseLog(log) }]);
+}
+
+export async function deleteMultipleGlucoseLogs(ids: string[], subjectId?: string): Promise<void> {
+    if (ids.length === 0) return;
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const owned = and(inArray(schema.glucoseLogs.id, ids), eq(schema.glucoseLogs.userId, userId), isNull(schema.glucoseLogs.deletedAt));
+    const logs = await db.query.glucoseLogs.findMany({ where: owned, with: GLUCOSE_LOG_RELATIONS });
+    await assertAllOwned(ids, Promise.resolve(logs), 'Glucose log not found.');
+    await db.update(schema.glucoseLogs).set({ deletedAt: new Date() }).where(owned);
+    await recordAuditEvents(actor.id, userId, 'glucose_log', logs.map(log => (
+        { action: 'delete' as const, entityId: log.id, before: toGlucoseLog(log) }
+    )));
+}
+
+
+// Trash Actions
+// Deleted logs and weights keep their rows with `deletedAt` set until they are
+// restored, deleted for good, or purged once the retention period is over:
+// by the scheduled job, and for the account at hand whenever its trash is
+// opened. The trash is only shown to people who can delete.
+export async function getTrash(subjectId?: string): Promise<TrashContents> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'write');
+    await purgeExpiredTrash(db, new Date(), userId);
+    const [logs, entries] = await Promise.all([
+        db.query.glucoseLogs.findMany({
+            where: and(eq(schema.glucoseLogs.userId, userId), isNotNull(schema.glucoseLogs.deletedAt)),
+            with: GLUCOSE_LOG_RELATIONS,
+            orderBy: (log, { desc }) => [desc(log.deletedAt)],
+        }),
+        db.query.weightHistory.findMany({
+            where: and(eq(schema.weightHistory.userId, userId), isNotNull(schema.weightHistory.deletedAt)),
+            orderBy: (entry, { desc }) => [desc(entry.deletedAt)],
+        }),
+    ]);
+    return {
+        glucoseLogs: logs.map(log => ({ ...toGlucoseLog(log), deletedAt: log.deletedAt!.toISOString() })),
+        weightHistory: entries.map(entry => ({ ...toWeightEntry(entry), deletedAt: entry.deletedAt!.toISOString() })),
+        retentionDays: TRASH_RETENTION_DAYS,
+    };
+}
+
+export async function restoreGlucoseLogs(ids: string[], subjectId?: string): Promise<GlucoseLog[]> {
+    if (ids.length === 0) return [];
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const trashed = and(inArray(schema.glucoseLogs.id, ids), eq(schema.glucoseLogs.userId, userId), isNotNull(schema.glucoseLogs.deletedAt));
+    const logs = await db.query.glucoseLogs.findMany({ where: trashed, with: GLUCOSE_LOG_RELATIONS });
+    await assertAllOwned(ids, Promise.resolve(logs), 'Glucose log not found in the trash.');
+    await db.update(schema.glucoseLogs).set({ deletedAt: null }).where(trashed);
+    const restored = logs.map(toGlucoseLog);
+    await recordAuditEvents(actor.id, userId, 'glucose_log', restored.map(log => (
+        { action: 'restore' as const, entityId: log.id, after: log }
+    )));
+    return restored;
+}
 
-    return { ...newLog, timestamp: newLog.timestamp.toISOString() };
+export async function restoreWeightEntries(ids: string[], subjectId?: string): Promise<WeightEntry[]> {
+    if (ids.length === 0) return [];
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const trashed = and(inArray(schema.weightHistory.id, ids), eq(schema.weightHistory.userId, userId), isNotNull(schema.weightHistory.deletedAt));
+    await assertAllOwned(ids, db.select({ id: schema.weightHistory.id }).from(schema.weightHistory).where(trashed), 'Weight entry not found in the trash.');
+    const restored = await db.update(schema.weightHistory).set({ deletedAt: null }).where(trashed).returning().then(res => res.map(toWeightEntry));
+    await recordAuditEvents(actor.id, userId, 'weight_entry', restored.map(entry => (
+        { action: 'restore' as const, entityId: entry.id, after: entry }
+    )));
+    return restored;
+}
+
+// Permanent deletion only applies to entries already in the trash, whose
+// deletion is on record, so it adds no audit events of its own.
+export async function purgeGlucoseLogs(ids: string[], subjectId?: string): Promise<void> {
+    if (ids.length === 0) return;
+    const { subjectId: userId } = await requireAccess(subjectId, 'write');
+    const trashed = and(inArray(schema.glucoseLogs.id, ids), eq(schema.glucoseLogs.userId, userId), isNotNull(schema.glucoseLogs.deletedAt));
+    await assertAllOwned(ids, db.select({ id: schema.glucoseLogs.id }).from(schema.glucoseLogs).where(trashed), 'Glucose log not found in the trash.');
+    await db.delete(schema.glucoseLogs).where(trashed);
+    await pruneUnusedTags(userId);
+}
+
+export async function purgeWeightEntries(ids: string[], subjectId?: string): Promise<void> {
+    if (ids.length === 0) return;
+    const { subjectId: userId } = await requireAccess(subjectId, 'write');
+    const trashed = and(inArray(schema.weightHistory.id, ids), eq(schema.weightHistory.userId, userId), isNotNull(schema.weightHistory.deletedAt));
+    await assertAllOwned(ids, db.select({ id: schema.weightHistory.id }).from(schema.weightHistory).where(trashed), 'Weight entry not found in the trash.');
+    await db.delete(schema.weightHistory).where(trashed);
+}
+
+
+// Activity Actions
+function validateActivity(data: Omit<Activity, 'id'>) {
+    if (!Number.isInteger(data.durationMinutes) || data.durationMinutes <= 0 || data.durationMinutes > MAX_ACTIVITY_MINUTES) {
+        throw new Error(`Duration must be a whole number of minutes between 1 and ${MAX_ACTIVITY_MINUTES}.`);
+    }
+    if (data.calories !== null && !(data.calories >= 0)) throw new Error('Calories must be 0 kcal or more.');
+    if (Number.isNaN(new Date(data.startedAt).getTime())) throw new Error('Start time is invalid.');
+}
+
+export async function getActivities(subjectId?: string): Promise<Activity[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
+    const activities = await db.query.activities.findMany({
+        where: eq(schema.activities.userId, userId),
+        orderBy: (activity, { desc }) => [desc(activity.startedAt)],
+    });
+    return activities.map(toActivity);
 }
 
-export async function updateGlucoseLog(log: GlucoseLog): Promise<GlucoseLog> {
-    const updatedLog = await db.update(schema.glucoseLogs)
+export async function addActivity(data: Omit<Activity, 'id'>, subjectId?: string): Promise<Activity> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateActivity(data);
+    const newActivity = await db.insert(schema.activities).values({
+        id: createId('activity'),
+        userId,
+        type: data.type,
+        startedAt: new Date(data.startedAt),
+        durationMinutes: data.durationMinutes,
+        intensity: data.intensity,
+        calories: data.calories,
+    }).returning().then(res => res[0]);
+    const created = toActivity(newActivity);
+    await recordAuditEvents(actor.id, userId, 'activity', [{ action: 'create', entityId: created.id, after: created }]);
+    return created;
+}
+
+export async function updateActivity(activity: Activity, subjectId?: string): Promise<Activity> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateActivity(activity);
+    const owned = and(eq(schema.activities.id, activity.id), eq(schema.activities.userId, userId));
+    const previous = await db.query.activities.findFirst({ where: owned });
+    if (!previous) throw new NotFoundError('Activity not found.');
+    const updatedActivity = await db.update(schema.activities)
         .set({
-            glycemia: log.glycemia,
-            dosage: log.dosage,
-            mealType: log.mealType,
-            timestamp: new Date(log.timestamp),
+            type: activity.type,
+            startedAt: new Date(activity.startedAt),
+            durationMinutes: activity.durationMinutes,
+            intensity: activity.intensity,
+            calories: activity.calories,
         })
-        .where(eq(schema.glucoseLogs.id, log.id))
+        .where(owned)
         .returning().then(res => res[0]);
-    return { ...updatedLog, timestamp: updatedLog.timestamp.toISOString() };
+    if (!updatedActivity) throw new NotFoundError('Activity not found.');
+    const updated = toActivity(updatedActivity);
+    await recordAuditEvents(actor.id, userId, 'activity', [
+        { action: 'update', entityId: activity.id, before: toActivity(previous), after: updated },
+    ]);
+    return updated;
 }
 
-export async function deleteGlucoseLog(id: string): Promise<void> {
-    await db.delete(schema.glucoseLogs).where(eq(schema.glucoseLogs.id, id));
+export async function deleteActivity(id: string, subjectId?: string): Promise<void> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const deleted = await db.delete(schema.activities)
+        .where(and(eq(schema.activities.id, id), eq(schema.activities.userId, userId)))
+        .returning();
+    if (deleted.length === 0) throw new NotFoundError('Activity not found.');
+    await recordAuditEvents(actor.id, userId, 'activity', [{ action: 'delete', entityId: id, before: toActivity(deleted[0]) }]);
 }
 
-export async function deleteMultipleGlucoseLogs(ids: string[]): Promise<void> {
-    if (ids.length === 0) return;
-    await db.delete(schema.glucoseLogs).where(inArray(schema.glucoseLogs.id, ids));
+
+// HbA1c Result Actions
+function validateHbA1cResult(data: Omit<HbA1cResult, 'id'>) {
+    if (!(data.percent >= MIN_HBA1C_PERCENT && data.percent <= MAX_HBA1C_PERCENT)) {
+        throw new Error(`HbA1c must be between ${MIN_HBA1C_PERCENT} % and ${MAX_HBA1C_PERCENT} %.`);
+    }
+    const takenAt = new Date(data.takenAt);
+    if (Number.isNaN(takenAt.getTime())) throw new Error('Sample date is invalid.');
+    if (takenAt > new Date()) throw new Error('Sample date cannot be in the future.');
+}
+
+export async function getHbA1cResults(subjectId?: string): Promise<HbA1cResult[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
+    const results = await db.query.hba1cResults.findMany({
+        where: eq(schema.hba1cResults.userId, userId),
+        orderBy: (result, { desc }) => [desc(result.takenAt)],
+    });
+    return results.map(toHbA1cResult);
+}
+
+export async function addHbA1cResult(data: Omit<HbA1cResult, 'id'>, subjectId?: string): Promise<HbA1cResult> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateHbA1cResult(data);
+    const newResult = await db.insert(schema.hba1cResults).values({
+        id: createId('a1c'),
+        userId,
+        takenAt: new Date(data.takenAt),
+        percent: data.percent,
+        labName: data.labName?.trim() || null,
+    }).returning().then(res => res[0]);
+    const created = toHbA1cResult(newResult);
+    await recordAuditEvents(actor.id, userId, 'hba1c_result', [{ action: 'create', entityId: created.id, after: created }]);
+    return created;
+}
+
+export async function updateHbA1cResult(result: HbA1cResult, subjectId?: string): Promise<HbA1cResult> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateHbA1cResult(result);
+    const owned = and(eq(schema.hba1cResults.id, result.id), eq(schema.hba1cResults.userId, userId));
+    const previous = await db.query.hba1cResults.findFirst({ where: owned });
+    if (!previous) throw new NotFoundError('HbA1c result not found.');
+    const updatedResult = await db.update(schema.hba1cResults)
+        .set({ takenAt: new Date(result.takenAt), percent: result.percent, labName: result.labName?.trim() || null })
+        .where(owned)
+        .returning().then(res => res[0]);
+    if (!updatedResult) throw new NotFoundError('HbA1c result not found.');
+    const updated = toHbA1cResult(updatedResult);
+    await recordAuditEvents(actor.id, userId, 'hba1c_result', [
+        { action: 'update', entityId: result.id, before: toHbA1cResult(previous), after: updated },
+    ]);
+    return updated;
+}
+
+export async function deleteHbA1cResult(id: string, subjectId?: string): Promise<void> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const deleted = await db.delete(schema.hba1cResults)
+        .where(and(eq(schema.hba1cResults.id, id), eq(schema.hba1cResults.userId, userId)))
+        .returning();
+    if (deleted.length === 0) throw new NotFoundError('HbA1c result not found.');
+    await recordAuditEvents(actor.id, userId, 'hba1c_result', [{ action: 'delete', entityId: id, before: toHbA1cResult(deleted[0]) }]);
+}
+
+
+// Ketone Reading Actions
+function validateKetoneReading(data: Omit<KetoneReading, 'id'>) {
+    if (!(data.value >= 0 && data.value <= MAX_KETONE_MMOL)) throw new Error(`Ketones must be between 0 and ${MAX_KETONE_MMOL} mmol/L.`);
+    if (Number.isNaN(new Date(data.takenAt).getTime())) throw new Error('Reading time is invalid.');
+}
+
+export async function getKetoneReadings(subjectId?: string): Promise<KetoneReading[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
+    const readings = await db.query.ketoneReadings.findMany({
+        where: eq(schema.ketoneReadings.userId, userId),
+        orderBy: (reading, { desc }) => [desc(reading.takenAt)],
+    });
+    return readings.map(toKetoneReading);
+}
+
+export async function addKetoneReading(data: Omit<KetoneReading, 'id'>, subjectId?: string): Promise<KetoneReading> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateKetoneReading(data);
+    const newReading = await db.insert(schema.ketoneReadings).values({
+        id: createId('ketone'),
+        userId,
+        takenAt: new Date(data.takenAt),
+        method: data.method,
+        value: data.value,
+    }).returning().then(res => res[0]);
+    const created = toKetoneReading(newReading);
+    await recordAuditEvents(actor.id, userId, 'ketone_reading', [{ action: 'create', entityId: created.id, after: created }]);
+    return created;
+}
+
+export async function deleteKetoneReading(id: string, subjectId?: string): Promise<void> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const deleted = await db.delete(schema.ketoneReadings)
+        .where(and(eq(schema.ketoneReadings.id, id), eq(schema.ketoneReadings.userId, userId)))
+        .returning();
+    if (deleted.length === 0) throw new NotFoundError('Ketone reading not found.');
+    await recordAuditEvents(actor.id, userId, 'ketone_reading', [{ action: 'delete', entityId: id, before: toKetoneReading(deleted[0]) }]);
+}
+
+
+// Hypo Event Actions
+// An event hangs off the low reading it was opened for. The next reading
+// logged after it, up to an hour past the recheck time, becomes its recheck.
+const HYPO_EVENT_RELATIONS = { log: true, recheckLog: true } as const;
+
+function validateHypoEvent(data: Pick<HypoEvent, 'symptoms' | 'treatment' | 'treatmentCarbs'>) {
+    if (data.symptoms.length > HYPO_SYMPTOMS.length || data.symptoms.some(symptom => !HYPO_SYMPTOMS.includes(symptom))) {
+        throw new Error('Unknown symptom.');
+    }
+    if (data.treatment && data.treatment.length > MAX_MEAL_DESCRIPTION_LENGTH) {
+        throw new Error(`Treatment must be at most ${MAX_MEAL_DESCRIPTION_LENGTH} characters.`);
+    }
+    if (data.treatmentCarbs !== null && !(data.treatmentCarbs >= 0)) throw new Error('Treatment carbs must be 0 g or more.');
+}
+
+async function linkHypoRecheck(actorId: string, userId: string, log: typeof schema.glucoseLogs.$inferSelect) {
+    const open = await db.query.hypoEvents.findFirst({
+        where: and(
+            eq(schema.hypoEvents.userId, userId),
+            isNull(schema.hypoEvents.recheckLogId),
+            gte(schema.hypoEvents.recheckDueAt, new Date(log.timestamp.getTime() - HYPO_RECHECK_WINDOW_MINUTES * 60 * 1000)),
+        ),
+        with: HYPO_EVENT_RELATIONS,
+        orderBy: (event, { desc }) => [desc(event.recheckDueAt)],
+    });
+    if (!open || open.log.deletedAt || open.log.timestamp >= log.timestamp) return;
+    await db.update(schema.hypoEvents).set({ recheckLogId: log.id }).where(eq(schema.hypoEvents.id, open.id));
+    await recordAuditEvents(actorId, userId, 'hypo_event', [
+        { action: 'update', entityId: open.id, before: toHypoEvent(open), after: toHypoEvent({ ...open, recheckLogId: log.id, recheckLog: log }) },
+    ]);
+}
+
+export async function getHypoEvents(subjectId?: string): Promise<HypoEvent[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
+    const events = await db.query.hypoEvents.findMany({
+        where: eq(schema.hypoEvents.userId, userId),
+        with: HYPO_EVENT_RELATIONS,
+    });
+    // Events of trashed readings are hidden, and a trashed recheck counts as not done.
+    return events
+        .filter(event => !event.log.deletedAt)
+        .map(event => event.recheckLog?.deletedAt ? { ...event, recheckLogId: null, recheckLog: null } : event)
+        .map(toHypoEvent)
+        .sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime());
+}
+
+export async function recordHypoEvent(data: Pick<HypoEvent, 'logId' | 'symptoms' | 'treatment' | 'treatmentCarbs'>, subjectId?: string): Promise<HypoEvent> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateHypoEvent(data);
+    const [owner, log] = await Promise.all([
+        db.query.users.findFirst({ where: eq(schema.users.id, userId) }),
+        db.query.glucoseLogs.findFirst({ where: and(eq(schema.glucoseLogs.id, data.logId), eq(schema.glucoseLogs.userId, userId), isNull(schema.glucoseLogs.deletedAt)) }),
+    ]);
+    if (!owner || !log) throw new NotFoundError('Glucose log not found.');
+    if (log.glycemia >= owner.hypoThreshold) throw new Error('This reading is not below the hypo threshold.');
+
+    const newEvent = await db.insert(schema.hypoEvents).values({
+        id: createId('hypo'),
+        userId,
+        logId: log.id,
+        symptoms: data.symptoms,
+        treatment: data.treatment?.trim() || null,
+        treatmentCarbs: data.treatmentCarbs,
+        recheckDueAt: new Date(log.timestamp.getTime() + HYPO_RECHECK_MINUTES * 60 * 1000),
+    }).onConflictDoNothing().returning().then(res => res[0]);
+    if (!newEvent) throw new Error('A hypo event is already recorded for this reading.');
+
+    const created = toHypoEvent({ ...newEvent, log, recheckLog: null });
+    await recordAuditEvents(actor.id, userId, 'hypo_event', [{ action: 'create', entityId: created.id, after: created }]);
+    return created;
+}
+
+export async function updateHypoEvent(event: Pick<HypoEvent, 'id' | 'symptoms' | 'treatment' | 'treatmentCarbs'>, subjectId?: string): Promise<HypoEvent> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateHypoEvent(event);
+    const owned = and(eq(schema.hypoEvents.id, event.id), eq(schema.hypoEvents.userId, userId));
+    const previous = await db.query.hypoEvents.findFirst({ where: owned, with: HYPO_EVENT_RELATIONS });
+    if (!previous) throw new NotFoundError('Hypo event not found.');
+    const updatedEvent = await db.update(schema.hypoEvents)
+        .set({ symptoms: event.symptoms, treatment: event.treatment?.trim() || null, treatmentCarbs: event.treatmentCarbs })
+        .where(owned)
+        .returning().then(res => res[0]);
+    if (!updatedEvent) throw new NotFoundError('Hypo event not found.');
+    const updated = toHypoEvent({ ...updatedEvent, log: previous.log, recheckLog: previous.recheckLog });
+    await recordAuditEvents(actor.id, userId, 'hypo_event', [
+        { action: 'update', entityId: event.id, before: toHypoEvent(previous), after: updated },
+    ]);
+    return updated;
+}
+
+export async function deleteHypoEvent(id: string, subjectId?: string): Promise<void> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const owned = and(eq(schema.hypoEvents.id, id), eq(schema.hypoEvents.userId, userId));
+    const event = await db.query.hypoEvents.findFirst({ where: owned, with: HYPO_EVENT_RELATIONS });
+    if (!event) throw new NotFoundError('Hypo event not found.');
+    await db.delete(schema.hypoEvents).where(owned);
+    await recordAuditEvents(actor.id, userId, 'hypo_event', [{ action: 'delete', entityId: id, before: toHypoEvent(event) }]);
+}
+
+
+// Blood Pressure Actions
+function validateBloodPressure(data: Omit<BloodPressureReading, 'id'>) {
+    const isWhole = (value: number, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max;
+    if (!isWhole(data.systolic, 50, 300)) throw new Error('Systolic pressure must be a whole number between 50 and 300 mmHg.');
+    if (!isWhole(data.diastolic, 20, 200)) throw new Error('Diastolic pressure must be a whole number between 20 and 200 mmHg.');
+    if (data.diastolic >= data.systolic) throw new Error('Diastolic pressure must be lower than systolic pressure.');
+    if (data.pulse !== null && !isWhole(data.pulse, 20, 250)) throw new Error('Pulse must be a whole number between 20 and 250 bpm.');
+    if (Number.isNaN(new Date(data.takenAt).getTime())) throw new Error('Reading time is invalid.');
+}
+
+export async function getBloodPressureReadings(subjectId?: string): Promise<BloodPressureReading[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
+    const readings = await db.query.bloodPressureReadings.findMany({
+        where: eq(schema.bloodPressureReadings.userId, userId),
+        orderBy: (reading, { desc }) => [desc(reading.takenAt)],
+    });
+    return readings.map(toBloodPressureReading);
+}
+
+export async function addBloodPressureReading(data: Omit<BloodPressureReading, 'id'>, subjectId?: string): Promise<BloodPressureReading> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateBloodPressure(data);
+    const newReading = await db.insert(schema.bloodPressureReadings).values({
+        id: createId('bp'),
+        userId,
+        takenAt: new Date(data.takenAt),
+        systolic: data.systolic,
+        diastolic: data.diastolic,
+        pulse: data.pulse,
+        arm: data.arm,
+    }).returning().then(res => res[0]);
+    const created = toBloodPressureReading(newReading);
+    await recordAuditEvents(actor.id, userId, 'blood_pressure', [{ action: 'create', entityId: created.id, after: created }]);
+    return created;
+}
+
+export async function updateBloodPressureReading(reading: BloodPressureReading, subjectId?: string): Promise<BloodPressureReading> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    validateBloodPressure(reading);
+    const owned = and(eq(schema.bloodPressureReadings.id, reading.id), eq(schema.bloodPressureReadings.userId, userId));
+    const previous = await db.query.bloodPressureReadings.findFirst({ where: owned });
+    if (!previous) throw new NotFoundError('Blood pressure reading not found.');
+    const updatedReading = await db.update(schema.bloodPressureReadings)
+        .set({
+            takenAt: new Date(reading.takenAt),
+            systolic: reading.systolic,
+            diastolic: reading.diastolic,
+            pulse: reading.pulse,
+            arm: reading.arm,
+        })
+        .where(owned)
+        .returning().then(res => res[0]);
+    if (!updatedReading) throw new NotFoundError('Blood pressure reading not found.');
+    const updated = toBloodPressureReading(updatedReading);
+    await recordAuditEvents(actor.id, userId, 'blood_pressure', [
+        { action: 'update', entityId: reading.id, before: toBloodPressureReading(previous), after: updated },
+    ]);
+    return updated;
+}
+
+export async function deleteBloodPressureReading(id: string, subjectId?: string): Promise<void> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const deleted = await db.delete(schema.bloodPressureReadings)
+        .where(and(eq(schema.bloodPressureReadings.id, id), eq(schema.bloodPressureReadings.userId, userId)))
+        .returning();
+    if (deleted.length === 0) throw new NotFoundError('Blood pressure reading not found.');
+    await recordAuditEvents(actor.id, userId, 'blood_pressure', [{ action: 'delete', entityId: id, before: toBloodPressureReading(deleted[0]) }]);
+}
+
+
+// Sick-Day Actions
+// Turning sick-day mode on opens a period and turning it off closes it, so
+// reports can show when it was active. Loggers can toggle it for the owner.
+export async function getSickDayPeriods(subjectId?: string): Promise<SickDayPeriod[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
+    const periods = await db.query.sickDayPeriods.findMany({
+        where: eq(schema.sickDayPeriods.userId, userId),
+        orderBy: (period, { desc }) => [desc(period.startedAt)],
+    });
+    return periods.map(toSickDayPeriod);
+}
+
+export async function startSickDay(subjectId?: string): Promise<SickDayPeriod> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const open = await db.query.sickDayPeriods.findFirst({
+        where: and(eq(schema.sickDayPeriods.userId, userId), isNull(schema.sickDayPeriods.endedAt)),
+    });
+    if (open) return toSickDayPeriod(open);
+    const newPeriod = await db.insert(schema.sickDayPeriods)
+        .values({ id: createId('sick'), userId, startedAt: new Date() })
+        .returning().then(res => res[0]);
+    const created = toSickDayPeriod(newPeriod);
+    await recordAuditEvents(actor.id, userId, 'sick_day_period', [{ action: 'create', entityId: created.id, after: created }]);
+    return created;
+}
+
+export async function endSickDay(subjectId?: string): Promise<SickDayPeriod> {
+    const { actor, subjectId: userId } = await requireAccess(subjectId, 'write');
+    const ended = await db.update(schema.sickDayPeriods)
+        .set({ endedAt: new Date() })
+        .where(and(eq(schema.sickDayPeriods.userId, userId), isNull(schema.sickDayPeriods.endedAt)))
+        .returning();
+    if (ended.length === 0) throw new NotFoundError('Sick-day mode is not on.');
+    await recordAuditEvents(actor.id, userId, 'sick_day_period', ended.map(period => ({
+        action: 'update' as const,
+        entityId: period.id,
+        before: { ...toSickDayPeriod(period), endedAt: null },
+        after: toSickDayPeriod(period),
+    })));
+    return toSickDayPeriod(ended[0]);
+}
+
+// Demo Data Actions
+// Fills an empty account with generated readings (see src/lib/demo-data.ts) so
+// reports and reminders can be tried out. The rows are not audited: they are
+// sample data, not the user's own records.
+export async function loadDemoData(): Promise<void> {
+    const user = await requireUser();
+    const [log, weight] = await Promise.all([
+        db.query.glucoseLogs.findFirst({ where: eq(schema.glucoseLogs.userId, user.id), columns: { id: true } }),
+        db.query.weightHistory.findFirst({ where: eq(schema.weightHistory.userId, user.id), columns: { id: true } }),
+    ]);
+    if (log || weight) throw new Error('Demo data can only be loaded into an account without logs or weights.');
+    await insertDemoData(db, user.id, generateDemoData(user.id));
+}
+
+
+// Change history of a single record, newest first. Readable by anyone who can
+// read the record itself, so caregivers and clinicians see corrections too.
+export async function getAuditHistory(entityType: AuditEntityType, entityId: string, subjectId?: string): Promise<AuditEvent[]> {
+    const { subjectId: userId } = await requireAccess(subjectId, 'read');
+    const events = await db.query.auditEvents.findMany({
+        where: and(
+            eq(schema.auditEvents.userId, userId),
+            eq(schema.auditEvents.entityType, entityType),
+            eq(schema.auditEvents.entityId, entityId),
+        ),
+        with: { actor: { columns: { name: true } } },
+        orderBy: (event, { desc }) => [desc(event.createdAt), desc(event.id)],
+    });
+    return events.map(event => ({
+        id: event.id,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        actorName: event.actor?.name ?? null,
+        before: event.before as Record<string, unknown> | null,
+        after: event.after as Record<string, unknown> | null,
+        createdAt: event.createdAt.toISOString(),
+    }));
 }
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { requestPasswordReset } from '@/app/db-actions';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import Link from 'next/link';
+import { HeartPulse, Loader2, AlertTriangle, MailCheck } from 'lucide-react';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address.'),
+});
+
+type FormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const onSubmit = async (data: FormData) => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await requestPasswordReset(data.email);
+      setSentTo(data.email);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-transparent p-4">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center items-center gap-2 mb-6">
+            <HeartPulse className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-primary">GlucoTrack</h1>
+        </div>
+        <Card className="bg-glass">
+            <CardHeader className="text-center">
+                <CardTitle className="text-2xl">Forgot Password</CardTitle>
+                <CardDescription>We'll email you a link to choose a new password.</CardDescription>
+            </CardHeader>
+            <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+                <CardContent className="space-y-4">
+                {error && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>Request Failed</AlertTitle>
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+                {sentTo ? (
+                    <Alert>
+                      <MailCheck className="h-4 w-4" />
+                      <AlertTitle>Check your inbox</AlertTitle>
+                      <AlertDescription>
+                        If an account exists for {sentTo}, a reset link valid for one hour is on its way.
+                        {process.env.NODE_ENV !== 'production' && (
+                          <> In development, open the <Link href="/outbox" className="font-medium text-primary hover:underline">mail outbox</Link>.</>
+                        )}
+                      </AlertDescription>
+                    </Alert>
+                ) : (
+                    <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                            <Input type="email" placeholder="john.doe@example.com" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                        )}
+                    />
+                )}
+                </CardContent>
+                <CardFooter className="flex flex-col gap-4">
+                {!sentTo && (
+                    <Button type="submit" className="w-full" disabled={isSubmitting}>
+                        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Send Reset Link
+                    </Button>
+                )}
+                <p className="text-sm text-center text-muted-foreground">
+                    Remembered it?{' '}
+                    <Link href="/login" className="font-medium text-primary hover:underline">
+                    Back to login
+                    </Link>
+                </p>
+                </CardFooter>
+            </form>
+            </Form>
+        </Card>
+      </div>
+    </div>
+  );
+}
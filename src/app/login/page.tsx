@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect } from 'react';
+import { Suspense, useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -19,6 +19,7 @@ import { Input } from '@/components/ui/input';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -26,8 +27,10 @@ import {
 } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import Link from 'next/link';
-import { HeartPulse, Loader2, AlertTriangle } from 'lucide-react';
-import { useRouter } from 'next/navigation';
+import { HeartPulse, Loader2, AlertTriangle, LockKeyhole } from 'lucide-react';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { getSafeReturnTo } from '@/lib/return-to';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address.'),
@@ -36,11 +39,84 @@ const loginSchema = z.object({
 
 type FormData = z.infer<typeof loginSchema>;
 
-export default function LoginPage() {
+const twoFactorSchema = z.object({
+  code: z.string().trim().min(6, 'Enter the 6-digit code or a recovery code.'),
+});
+
+type TwoFactorFormData = z.infer<typeof twoFactorSchema>;
+
+const TwoFactorStep = ({ onCancel }: { onCancel: () => void }) => {
+  const { verifyTwoFactor } = useApp();
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<TwoFactorFormData>({
+    resolver: zodResolver(twoFactorSchema),
+    defaultValues: { code: '' },
+  });
+
+  const onSubmit = async (data: TwoFactorFormData) => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await verifyTwoFactor(data.code);
+    } catch (err: any) {
+      setError(err.message);
+      form.reset({ code: '' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+        <CardContent className="space-y-4">
+        {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Verification Failed</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+        )}
+        <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+            <FormItem>
+                <FormLabel>Authentication Code</FormLabel>
+                <FormControl>
+                <Input autoComplete="one-time-code" autoFocus placeholder="123456" {...field} />
+                </FormControl>
+                <FormDescription>Open your authenticator app, or use one of your recovery codes.</FormDescription>
+                <FormMessage />
+            </FormItem>
+            )}
+        />
+        </CardContent>
+        <CardFooter className="flex flex-col gap-4">
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={onCancel}>
+            Use a different account
+        </Button>
+        </CardFooter>
+    </form>
+    </Form>
+  );
+};
+
+function LoginContent() {
   const { login, authState } = useApp();
   const [error, setError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const router = useRouter();
+  const returnToParam = useSearchParams().get('returnTo');
+  const returnTo = getSafeReturnTo(returnToParam);
 
   const form = useForm<FormData>({
     resolver: zodResolver(loginSchema),
@@ -52,15 +128,21 @@ export default function LoginPage() {
 
   useEffect(() => {
     if (authState === 'loggedIn') {
-      router.push('/dashboard');
+      router.push(returnTo);
     }
-  }, [authState, router]);
+  }, [authState, router, returnTo]);
 
   const onSubmit = async (data: FormData) => {
     setError(null);
+    setLockedUntil(null);
     setIsSubmitting(true);
     try {
-      await login(data.email, data.password);
+      const result = await login(data.email, data.password);
+      if (result.status === 'locked') {
+        setLockedUntil(new Date(result.retryAt));
+      } else if (result.status === 'two_factor_required') {
+        setNeedsTwoFactor(true);
+      }
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -85,12 +167,26 @@ export default function LoginPage() {
         </div>
         <Card className="bg-glass">
             <CardHeader className="text-center">
-                <CardTitle className="text-2xl">Welcome Back</CardTitle>
-                <CardDescription>Enter your credentials to access your dashboard.</CardDescription>
+                <CardTitle className="text-2xl">{needsTwoFactor ? 'Two-Factor Authentication' : 'Welcome Back'}</CardTitle>
+                <CardDescription>
+                  {needsTwoFactor ? 'One more step to confirm it is really you.' : 'Enter your credentials to access your dashboard.'}
+                </CardDescription>
             </CardHeader>
+            {needsTwoFactor ? (
+              <TwoFactorStep onCancel={() => { setNeedsTwoFactor(false); form.reset(); }} />
+            ) : (
             <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)}>
                 <CardContent className="space-y-4">
+                {lockedUntil && (
+                    <Alert variant="destructive">
+                      <LockKeyhole className="h-4 w-4" />
+                      <AlertTitle>Too Many Attempts</AlertTitle>
+                      <AlertDescription>
+                        Sign-in is temporarily locked after repeated failed attempts. Please try again {formatDistanceToNowStrict(lockedUntil, { addSuffix: true })}, or reset your password.
+                      </AlertDescription>
+                    </Alert>
+                )}
                 {error && (
                     <Alert variant="destructive">
                       <AlertTriangle className="h-4 w-4" />
@@ -116,7 +212,12 @@ export default function LoginPage() {
                     name="password"
                     render={({ field }) => (
                     <FormItem>
-                        <FormLabel>Password</FormLabel>
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Password</FormLabel>
+                          <Link href="/forgot-password" className="text-sm font-medium text-primary hover:underline">
+                            Forgot password?
+                          </Link>
+                        </div>
                         <FormControl>
                         <Input type="password" placeholder="••••••••" {...field} />
                         </FormControl>
@@ -132,15 +233,28 @@ export default function LoginPage() {
                 </Button>
                 <p className="text-sm text-center text-muted-foreground">
                     Don't have an account?{' '}
-                    <Link href="/signup" className="font-medium text-primary hover:underline">
+                    <Link href={returnToParam ? `/signup?returnTo=${encodeURIComponent(returnToParam)}` : '/signup'} className="font-medium text-primary hover:underline">
                     Sign up
                     </Link>
                 </p>
                 </CardFooter>
             </form>
             </Form>
+            )}
         </Card>
       </div>
     </div>
   );
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center bg-transparent">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    }>
+      <LoginContent />
+    </Suspense>
+  );
+}
@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -13,34 +13,70 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { MoreHorizontal, PlusCircle, Trash2, Pencil } from 'lucide-react';
+import { MoreHorizontal, PlusCircle, Trash2, Pencil, History, Search, TriangleAlert } from 'lucide-react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription, SheetFooter, SheetClose } from '@/components/ui/sheet';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { Checkbox } from "@/components/ui/checkbox";
+import { GlucoseLogHistoryDialog } from '@/components/glucose-log-history-dialog';
+import { HypoEventDialog } from '@/components/hypo-event-dialog';
+import { InsulinDosesField, insulinDosesSchema } from '@/components/insulin-doses-field';
+import { TagInput } from '@/components/tag-input';
+import { formatDoses } from '@/lib/insulins';
+import { GLUCOSE_UNITS, formatGlucose, fromDisplayGlucose, toDisplayGlucose } from '@/lib/glucose-units';
+import { isHypo } from '@/lib/hypo';
 
 
 const glucoseLogSchema = z.object({
   id: z.string().optional(),
   timestamp: z.string().optional(),
   glycemia: z.coerce.number().min(0.1, 'Glycemia is required.'),
-  dosage: z.coerce.number().min(0, 'Dosage must be 0 or more.'),
+  doses: insulinDosesSchema,
+  carbs: z.union([z.literal(''), z.coerce.number().min(0, 'Carbs must be 0 or more.')]).optional(),
+  mealDescription: z.string().max(200, 'Keep it under 200 characters.').optional(),
   mealType: z.enum(['Breakfast', 'Lunch', 'Dinner', 'Snack', 'Fasting']),
+  notes: z.string().max(1000, 'Keep it under 1000 characters.').optional(),
+  tags: z.array(z.string()).max(10, 'Use at most 10 tags.'),
 });
 
+const ALL_TAGS = '__all__';
+
 type FormData = z.infer<typeof glucoseLogSchema>;
 
 export default function LogsPage() {
-  const { glucoseLogs, addGlucoseLog, updateGlucoseLog, deleteGlucoseLog, deleteMultipleGlucoseLogs } = useApp();
+  const { glucoseLogs, insulins, glucoseUnit, hypoEvents, hypoThreshold, addGlucoseLog, updateGlucoseLog, deleteGlucoseLog, deleteMultipleGlucoseLogs, accessRole } = useApp();
+  const canEdit = accessRole !== 'viewer';
   const [isSheetOpen, setIsSheetOpen] = useState(false);
   const [editingLog, setEditingLog] = useState<GlucoseLog | null>(null);
   const [deletingLogId, setDeletingLogId] = useState<string | null>(null);
+  const [isConfirmingBulkDelete, setIsConfirmingBulkDelete] = useState(false);
+  const [historyLog, setHistoryLog] = useState<GlucoseLog | null>(null);
+  const [hypoLog, setHypoLog] = useState<GlucoseLog | null>(null);
   const [selectedLogIds, setSelectedLogIds] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState(ALL_TAGS);
   const { toast } = useToast();
 
+  const allTags = useMemo(
+    () => [...new Set(glucoseLogs.flatMap(log => log.tags))].sort((a, b) => a.localeCompare(b)),
+    [glucoseLogs],
+  );
+
+  const filteredLogs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return glucoseLogs.filter(log => {
+      if (tagFilter !== ALL_TAGS && !log.tags.includes(tagFilter)) return false;
+      if (!query) return true;
+      return [log.notes, log.mealDescription, log.mealType, ...log.tags]
+        .some(text => text?.toLowerCase().includes(query));
+    });
+  }, [glucoseLogs, search, tagFilter]);
+
   const form = useForm<FormData>({
     resolver: zodResolver(glucoseLogSchema),
   });
@@ -48,9 +84,13 @@ export default function LogsPage() {
   const handleAddNew = () => {
     setEditingLog(null);
     form.reset({
-      glycemia: 1.0,
-      dosage: 0,
+      glycemia: toDisplayGlucose(1.0, glucoseUnit),
+      doses: [],
+      carbs: '',
+      mealDescription: '',
       mealType: 'Fasting',
+      notes: '',
+      tags: [],
       timestamp: new Date().toISOString(),
     });
     setIsSheetOpen(true);
@@ -60,6 +100,10 @@ export default function LogsPage() {
     setEditingLog(log);
     form.reset({
       ...log,
+      glycemia: toDisplayGlucose(log.glycemia, glucoseUnit),
+      carbs: log.carbs ?? '',
+      mealDescription: log.mealDescription ?? '',
+      notes: log.notes ?? '',
       timestamp: new Date(log.timestamp).toISOString(),
     });
     setIsSheetOpen(true);
@@ -69,27 +113,48 @@ export default function LogsPage() {
     setDeletingLogId(id);
   };
   
-  const confirmDelete = () => {
-    if (deletingLogId) {
-      deleteGlucoseLog(deletingLogId);
-      toast({ title: 'Success', description: 'Log entry deleted.' });
-      setDeletingLogId(null);
+  const confirmDelete = async () => {
+    if (!deletingLogId) return;
+    const id = deletingLogId;
+    setDeletingLogId(null);
+    try {
+      await deleteGlucoseLog(id);
+      toast({ title: 'Success', description: 'Log entry moved to the trash.' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
     }
   };
 
-  const onSubmit = (data: FormData) => {
+  const onSubmit = async (data: FormData) => {
     const logData = {
       ...data,
+      // An untouched value keeps its stored precision instead of the rounded display value.
+      glycemia: editingLog && data.glycemia === toDisplayGlucose(editingLog.glycemia, glucoseUnit)
+        ? editingLog.glycemia
+        : fromDisplayGlucose(data.glycemia, glucoseUnit),
+      carbs: typeof data.carbs === 'number' ? data.carbs : null,
+      mealDescription: data.mealDescription || null,
       mealType: data.mealType as MealType,
+      notes: data.notes || null,
       timestamp: data.timestamp ? new Date(data.timestamp).toISOString() : new Date().toISOString(),
     };
 
-    if (editingLog) {
-      updateGlucoseLog({ ...editingLog, ...logData });
-      toast({ title: 'Success', description: 'Log entry updated.' });
-    } else {
-      addGlucoseLog(logData);
-      toast({ title: 'Success', description: 'New log entry added.' });
+    try {
+      if (editingLog) {
+        const updatedLog = await updateGlucoseLog({ ...editingLog, ...logData });
+        toast({ title: 'Success', description: 'Log entry updated.' });
+        // An edit that makes a reading low gets the same prompt as a new low reading.
+        if (isHypo(updatedLog.glycemia, hypoThreshold) && !hypoEvents.some(event => event.logId === updatedLog.id)) {
+          setHypoLog(updatedLog);
+        }
+      } else {
+        const newLog = await addGlucoseLog(logData);
+        toast({ title: 'Success', description: 'New log entry added.' });
+        if (isHypo(newLog.glycemia, hypoThreshold)) setHypoLog(newLog);
+      }
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
     }
     setIsSheetOpen(false);
     setEditingLog(null);
@@ -105,19 +170,24 @@ export default function LogsPage() {
 
   const handleSelectAllLogs = (checked: boolean | string) => {
     if (checked) {
-      setSelectedLogIds(glucoseLogs.map(log => log.id));
+      setSelectedLogIds(filteredLogs.map(log => log.id));
     } else {
       setSelectedLogIds([]);
     }
   };
 
-  const handleDeleteSelected = () => {
-    deleteMultipleGlucoseLogs(selectedLogIds);
-    toast({
-      title: 'Success',
-      description: `${selectedLogIds.length} log(s) deleted.`,
-    });
-    setSelectedLogIds([]);
+  const handleDeleteSelected = async () => {
+    setIsConfirmingBulkDelete(false);
+    try {
+      await deleteMultipleGlucoseLogs(selectedLogIds);
+      toast({
+        title: 'Success',
+        description: `${selectedLogIds.length} log(s) moved to the trash.`,
+      });
+      setSelectedLogIds([]);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
   };
 
   return (
@@ -129,42 +199,66 @@ export default function LogsPage() {
                 <CardDescription>View, manage, and add your glucose readings.</CardDescription>
             </div>
             <div className="flex items-center gap-2">
-              {selectedLogIds.length > 0 && (
-                <Button variant="destructive" size="sm" onClick={handleDeleteSelected}>
+              {canEdit && selectedLogIds.length > 0 && (
+                <Button variant="destructive" size="sm" onClick={() => setIsConfirmingBulkDelete(true)}>
                   <Trash2 className="h-3.5 w-3.5 mr-1" />
                   Delete ({selectedLogIds.length})
                 </Button>
               )}
-              <Button size="sm" className="gap-1" onClick={handleAddNew}>
-                  <PlusCircle className="h-3.5 w-3.5" />
-                  <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
-                      Add Log
-                  </span>
-              </Button>
+              {canEdit && (
+                <Button size="sm" className="gap-1" onClick={handleAddNew}>
+                    <PlusCircle className="h-3.5 w-3.5" />
+                    <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+                        Add Log
+                    </span>
+                </Button>
+              )}
             </div>
         </CardHeader>
         <CardContent>
+          <div className="flex flex-col gap-2 mb-4 sm:flex-row">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => { setSearch(e.target.value); setSelectedLogIds([]); }}
+                placeholder="Search notes, meals and tags..."
+                className="pl-8"
+              />
+            </div>
+            <Select value={tagFilter} onValueChange={(value) => { setTagFilter(value); setSelectedLogIds([]); }}>
+              <SelectTrigger className="sm:w-[200px]">
+                <SelectValue placeholder="Filter by tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+                {allTags.map(tag => <SelectItem key={tag} value={tag}>{tag}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
           <Table>
             <TableHeader>
               <TableRow>
                  <TableHead className="w-[50px]">
                   <Checkbox
-                    checked={selectedLogIds.length === glucoseLogs.length && glucoseLogs.length > 0}
+                    checked={selectedLogIds.length === filteredLogs.length && filteredLogs.length > 0}
                     onCheckedChange={handleSelectAllLogs}
                     aria-label="Select all"
                   />
                 </TableHead>
                 <TableHead>Date & Time</TableHead>
                 <TableHead>Meal Type</TableHead>
-                <TableHead>Glycemia (g/L)</TableHead>
-                <TableHead>Dosage</TableHead>
+                <TableHead>Glycemia ({GLUCOSE_UNITS[glucoseUnit].label})</TableHead>
+                <TableHead>Carbs (g)</TableHead>
+                <TableHead>Insulin</TableHead>
+                <TableHead>Notes & Tags</TableHead>
                 <TableHead>
                   <span className="sr-only">Actions</span>
                 </TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {glucoseLogs.length > 0 ? glucoseLogs.map(log => (
+              {filteredLogs.length > 0 ? filteredLogs.map(log => (
                 <TableRow key={log.id} data-state={selectedLogIds.includes(log.id) && "selected"} className="data-[state=selected]:bg-muted">
                   <TableCell>
                     <Checkbox
@@ -174,9 +268,26 @@ export default function LogsPage() {
                     />
                   </TableCell>
                   <TableCell className="font-medium">{format(new Date(log.timestamp), 'Pp')}</TableCell>
-                  <TableCell>{log.mealType}</TableCell>
-                  <TableCell>{log.glycemia.toFixed(2)}</TableCell>
-                  <TableCell>{log.dosage}</TableCell>
+                  <TableCell>
+                    {log.mealType}
+                    {log.mealDescription && <p className="text-xs text-muted-foreground">{log.mealDescription}</p>}
+                  </TableCell>
+                  <TableCell>
+                    {formatGlucose(log.glycemia, glucoseUnit, { withUnit: false })}
+                    {isHypo(log.glycemia, hypoThreshold) && <Badge variant="destructive" className="ml-2">Low</Badge>}
+                  </TableCell>
+                  <TableCell>{log.carbs ?? '—'}</TableCell>
+                  <TableCell>{formatDoses(log.doses, insulins)}</TableCell>
+                  <TableCell className="max-w-[240px]">
+                    {log.notes && <p className="text-xs text-muted-foreground truncate" title={log.notes}>{log.notes}</p>}
+                    {log.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {log.tags.map(tag => (
+                          <Badge key={tag} variant="secondary" className="cursor-pointer" onClick={() => setTagFilter(tag)}>{tag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -186,15 +297,21 @@ export default function LogsPage() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem onSelect={() => handleEdit(log)} className="flex items-center gap-2"><Pencil className="h-4 w-4" /> Edit</DropdownMenuItem>
-                        <DropdownMenuItem onSelect={() => handleDelete(log.id)} className="flex items-center gap-2 text-destructive"><Trash2 className="h-4 w-4" /> Delete</DropdownMenuItem>
+                        {canEdit && <DropdownMenuItem onSelect={() => handleEdit(log)} className="flex items-center gap-2"><Pencil className="h-4 w-4" /> Edit</DropdownMenuItem>}
+                        <DropdownMenuItem onSelect={() => setHistoryLog(log)} className="flex items-center gap-2"><History className="h-4 w-4" /> History</DropdownMenuItem>
+                        {canEdit && isHypo(log.glycemia, hypoThreshold) && (
+                          <DropdownMenuItem onSelect={() => setHypoLog(log)} className="flex items-center gap-2">
+                            <TriangleAlert className="h-4 w-4" /> {hypoEvents.some(event => event.logId === log.id) ? 'Hypo Details' : 'Record Hypo'}
+                          </DropdownMenuItem>
+                        )}
+                        {canEdit && <DropdownMenuItem onSelect={() => handleDelete(log.id)} className="flex items-center gap-2 text-destructive"><Trash2 className="h-4 w-4" /> Delete</DropdownMenuItem>}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </TableCell>
                 </TableRow>
               )) : (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center">No logs found.</TableCell>
+                  <TableCell colSpan={8} className="text-center">No logs found.</TableCell>
                 </TableRow>
               )}
             </TableBody>
@@ -234,23 +351,35 @@ export default function LogsPage() {
                 name="glycemia"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Glycemia (g/L)</FormLabel>
-                    <FormControl><Input type="number" step="0.01" {...field} /></FormControl>
+                    <FormLabel>Glycemia ({GLUCOSE_UNITS[glucoseUnit].label})</FormLabel>
+                    <FormControl><Input type="number" step={GLUCOSE_UNITS[glucoseUnit].step} {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="carbs"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Carbs (g)</FormLabel>
+                    <FormControl><Input type="number" step="1" placeholder="Optional" {...field} /></FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               <FormField
                 control={form.control}
-                name="dosage"
+                name="mealDescription"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Novorapide Dosage</FormLabel>
-                    <FormControl><Input type="number" step="1" {...field} /></FormControl>
+                    <FormLabel>Meal Description</FormLabel>
+                    <FormControl><Input placeholder="Optional" {...field} /></FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              <InsulinDosesField control={form.control} />
               <FormField
                 control={form.control}
                 name="mealType"
@@ -275,6 +404,30 @@ export default function LogsPage() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl><Textarea placeholder="e.g. forgot bolus, pizza night" rows={3} {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags</FormLabel>
+                    <FormControl>
+                      <TagInput value={field.value ?? []} onChange={field.onChange} suggestions={allTags} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <SheetFooter className="pt-4">
                 <SheetClose asChild>
                   <Button type="button" variant="outline">Cancel</Button>
@@ -286,12 +439,15 @@ export default function LogsPage() {
         </SheetContent>
       </Sheet>
 
+      <GlucoseLogHistoryDialog log={historyLog} onOpenChange={(open) => !open && setHistoryLog(null)} />
+      <HypoEventDialog log={hypoLog} onOpenChange={(open) => !open && setHypoLog(null)} />
+
       <AlertDialog open={!!deletingLogId} onOpenChange={(open) => !open && setDeletingLogId(null)}>
         <AlertDialogContent className="bg-glass-popover">
           <AlertDialogHeader>
             <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the glucose log entry.
+              The glucose log entry will be moved to the trash. You can restore it from there until it is erased.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -300,6 +456,21 @@ export default function LogsPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={isConfirmingBulkDelete} onOpenChange={setIsConfirmingBulkDelete}>
+        <AlertDialogContent className="bg-glass-popover">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedLogIds.length} log(s)?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected glucose log entries will be moved to the trash. You can restore them from there until they are erased.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSelected}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </AppLayout>
   );
 }
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { getOutboxMessages } from '@/app/db-actions';
+import type { OutboxMessage } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Separator } from '@/components/ui/separator';
+import { Inbox, Loader2, AlertTriangle } from 'lucide-react';
+
+// Turns bare URLs in a plain-text email into clickable links.
+const MessageText = ({ text }: { text: string }) => (
+  <p className="whitespace-pre-wrap break-words text-sm">
+    {text.split(/(https?:\/\/\S+)/g).map((part, index) =>
+      /^https?:\/\//.test(part)
+        ? <a key={index} href={part} className="font-medium text-primary hover:underline">{part}</a>
+        : part
+    )}
+  </p>
+);
+
+export default function OutboxPage() {
+  const [messages, setMessages] = useState<OutboxMessage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getOutboxMessages()
+      .then(setMessages)
+      .catch((err: any) => setError(err.message));
+  }, []);
+
+  return (
+    <div className="flex min-h-screen justify-center bg-transparent p-4">
+      <Card className="bg-glass w-full max-w-3xl self-start">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Inbox className="h-6 w-6 text-primary" />
+            <CardTitle>Mail Outbox</CardTitle>
+          </div>
+          <CardDescription>Emails captured by the development mail transport, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Outbox unavailable</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : !messages ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No messages have been sent yet.</p>
+          ) : messages.map((message, index) => (
+            <div key={message.id} className="space-y-2">
+              {index > 0 && <Separator className="mb-4" />}
+              <div className="flex flex-col md:flex-row md:items-baseline md:justify-between gap-1">
+                <p className="font-semibold">{message.subject}</p>
+                <p className="text-xs text-muted-foreground">{format(new Date(message.createdAt), 'Pp')}</p>
+              </div>
+              <p className="text-xs text-muted-foreground">To: {message.to}</p>
+              <MessageText text={message.text} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
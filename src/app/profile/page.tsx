@@ -9,6 +9,9 @@ import { format } from 'date-fns';
 import { AppLayout } from '@/components/AppLayout';
 import { useApp } from '@/context/app-context';
 import { calculateBMI, calculateAge } from '@/lib/utils';
+import { DEFAULT_GLUCOSE_UNIT, GLUCOSE_UNITS, formatGlucose, fromDisplayGlucose, toDisplayGlucose } from '@/lib/glucose-units';
+import { DEFAULT_HYPO_THRESHOLD, HYPO_THRESHOLD_LIMITS } from '@/lib/hypo';
+import type { GlucoseUnit } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -19,9 +22,19 @@ import {
   CardFooter
 } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
+import { SignInActivityCard } from '@/components/profile/sign-in-activity-card';
+import { TwoFactorCard } from '@/components/profile/two-factor-card';
+import { SharingCard } from '@/components/profile/sharing-card';
+import { InsulinsCard } from '@/components/profile/insulins-card';
+import { ClinicCard } from '@/components/profile/clinic-card';
+import { ActiveSessionsCard } from '@/components/profile/active-sessions-card';
+import { DeleteAccountCard } from '@/components/profile/delete-account-card';
+import { ChangeEmailCard } from '@/components/profile/change-email-card';
+import { ChangePasswordCard } from '@/components/profile/change-password-card';
 
 const profileSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters."),
@@ -29,6 +42,9 @@ const profileSchema = z.object({
   birthdate: z.string().refine((val) => !val || !isNaN(Date.parse(val)), {
     message: "Invalid date format.",
   }).nullable(),
+  glucoseUnit: z.enum(['g/L', 'mg/dL', 'mmol/L']),
+  // In the selected glucose unit.
+  hypoThreshold: z.coerce.number().positive("Threshold must be positive."),
 });
 
 export default function ProfilePage() {
@@ -43,7 +59,7 @@ export default function ProfilePage() {
 
   const profileForm = useForm<z.infer<typeof profileSchema>>({
     resolver: zodResolver(profileSchema),
-    defaultValues: { name: '', height: null, birthdate: null }
+    defaultValues: { name: '', height: null, birthdate: null, glucoseUnit: DEFAULT_GLUCOSE_UNIT, hypoThreshold: DEFAULT_HYPO_THRESHOLD }
   });
 
   useEffect(() => {
@@ -52,14 +68,26 @@ export default function ProfilePage() {
         name: profile.name,
         height: profile.height,
         birthdate: profile.birthdate ? format(new Date(profile.birthdate), 'yyyy-MM-dd') : null,
+        glucoseUnit: profile.glucoseUnit,
+        hypoThreshold: toDisplayGlucose(profile.hypoThreshold, profile.glucoseUnit),
       });
     }
   }, [profile, isEditingProfile, profileForm]);
 
   const onProfileSubmit = async (data: z.infer<typeof profileSchema>) => {
+    const unit = data.glucoseUnit;
+    const limits = { min: toDisplayGlucose(HYPO_THRESHOLD_LIMITS.min, unit), max: toDisplayGlucose(HYPO_THRESHOLD_LIMITS.max, unit) };
+    if (data.hypoThreshold < limits.min || data.hypoThreshold > limits.max) {
+      profileForm.setError('hypoThreshold', { message: `Must be between ${limits.min} and ${limits.max} ${GLUCOSE_UNITS[unit].label}.` });
+      return;
+    }
+    // An untouched value keeps its stored precision; rounding at the limits is clamped back in range.
+    const hypoThreshold = data.hypoThreshold === toDisplayGlucose(profile!.hypoThreshold, unit)
+      ? profile!.hypoThreshold
+      : Math.min(HYPO_THRESHOLD_LIMITS.max, Math.max(HYPO_THRESHOLD_LIMITS.min, fromDisplayGlucose(data.hypoThreshold, unit)));
     setIsSaving(true);
     try {
-      await updateProfile(data);
+      await updateProfile({ ...data, hypoThreshold });
       toast({ title: 'Success', description: 'Profile updated.' });
       setIsEditingProfile(false);
     } catch (error: any) {
@@ -130,6 +158,46 @@ export default function ProfilePage() {
                                     </FormItem>
                                 )}
                                />
+                               <FormField
+                                control={profileForm.control}
+                                name="glucoseUnit"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Glucose Unit</FormLabel>
+                                        <Select onValueChange={(value) => {
+                                            // Keep the threshold the same glucose level in the new unit.
+                                            const threshold = fromDisplayGlucose(profileForm.getValues('hypoThreshold'), field.value);
+                                            profileForm.setValue('hypoThreshold', toDisplayGlucose(threshold, value as GlucoseUnit));
+                                            field.onChange(value);
+                                        }} value={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {Object.values(GLUCOSE_UNITS).map(({ label }) => (
+                                                    <SelectItem key={label} value={label}>{label}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                               />
+                               <FormField
+                                control={profileForm.control}
+                                name="hypoThreshold"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Hypo Threshold ({GLUCOSE_UNITS[profileForm.watch('glucoseUnit')].label})</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" step={GLUCOSE_UNITS[profileForm.watch('glucoseUnit')].step} {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                               />
                             </>
                            ) : (
                              <div className="space-y-3">
@@ -145,6 +213,14 @@ export default function ProfilePage() {
                                     <FormLabel className="text-muted-foreground col-span-1">Height (cm)</FormLabel>
                                     <div className="md:col-span-2 text-sm py-2">{(profile.height && profile.height > 0) ? profile.height : 'Not set'}</div>
                                 </div>
+                                <div className="grid grid-cols-1 md:grid-cols-3 items-center gap-2 md:gap-4">
+                                    <FormLabel className="text-muted-foreground col-span-1">Glucose Unit</FormLabel>
+                                    <div className="md:col-span-2 text-sm py-2">{GLUCOSE_UNITS[profile.glucoseUnit].label}</div>
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-3 items-center gap-2 md:gap-4">
+                                    <FormLabel className="text-muted-foreground col-span-1">Hypo Threshold</FormLabel>
+                                    <div className="md:col-span-2 text-sm py-2">Below {formatGlucose(profile.hypoThreshold, profile.glucoseUnit)}</div>
+                                </div>
                              </div>
                            )}
                         </CardContent>
@@ -179,6 +255,17 @@ export default function ProfilePage() {
                     {!bmi && <p className="text-sm text-muted-foreground pt-2">Enter your weight & height to calculate BMI.</p>}
                 </CardContent>
             </Card>
+            <InsulinsCard />
+            <ChangeEmailCard />
+            <ChangePasswordCard />
+        </div>
+        <div className="flex flex-col gap-6">
+            <SharingCard />
+            <ClinicCard />
+            <TwoFactorCard />
+            <ActiveSessionsCard />
+            <SignInActivityCard />
+            <DeleteAccountCard />
         </div>
       </div>
     </AppLayout>
@@ -5,10 +5,12 @@ import { useState, useTransition } from 'react';
 import { AppLayout } from '@/components/AppLayout';
 import { useApp } from '@/context/app-context';
 import { getSuggestedReminders } from '@/app/actions';
+import { getSickDayChecks } from '@/lib/sick-day';
+import { format, isPast } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Loader2, Lightbulb, Bell, AlertTriangle } from 'lucide-react';
+import { Loader2, Lightbulb, Bell, AlertTriangle, Thermometer } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 type Reminder = {
@@ -17,7 +19,7 @@ type Reminder = {
 };
 
 export default function RemindersPage() {
-  const { glucoseLogs } = useApp();
+  const { glucoseLogs, insulins, activeSickDay, ketoneReadings } = useApp();
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
@@ -25,7 +27,8 @@ export default function RemindersPage() {
   const handleGenerateReminders = () => {
     startTransition(async () => {
       try {
-        const result = await getSuggestedReminders(glucoseLogs);
+        const sickDay = activeSickDay ? { period: activeSickDay, ketoneReadings } : null;
+        const result = await getSuggestedReminders(glucoseLogs, insulins, sickDay);
         if (result.length > 0 && result[0].time === "Error") {
              toast({
                 variant: "destructive",
@@ -56,6 +59,20 @@ export default function RemindersPage() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          {activeSickDay && (
+            <Alert variant="destructive" className="bg-glass">
+              <Thermometer className="h-4 w-4" />
+              <AlertTitle>Sick-day checks</AlertTitle>
+              <AlertDescription>
+                {getSickDayChecks(activeSickDay, glucoseLogs, ketoneReadings).map(check => (
+                  <p key={check.kind}>
+                    {check.kind === 'glucose' ? 'Glucose' : 'Ketones'}: {isPast(check.dueAt) ? 'due now' : `next at ${format(check.dueAt, 'p')}`}
+                  </p>
+                ))}
+                <p className="mt-1">Suggestions below use the tighter sick-day schedule.</p>
+              </AlertDescription>
+            </Alert>
+          )}
           <div className="flex justify-start">
             <Button onClick={handleGenerateReminders} disabled={isPending}>
               {isPending ? (
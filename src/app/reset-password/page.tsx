@@ -0,0 +1,161 @@
+"use client";
+
+import { Suspense, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { resetPassword } from '@/app/db-actions';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import Link from 'next/link';
+import { HeartPulse, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useSearchParams } from 'next/navigation';
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, 'Password must be at least 6 characters.'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match.',
+  path: ['confirmPassword'],
+});
+
+type FormData = z.infer<typeof resetPasswordSchema>;
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get('token');
+  const [error, setError] = useState<string | null>(null);
+  const [isDone, setIsDone] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: FormData) => {
+    if (!token) return;
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await resetPassword(token, data.password);
+      setIsDone(true);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!token || isDone) {
+    return (
+      <CardContent className="space-y-4">
+        {isDone ? (
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertTitle>Password updated</AlertTitle>
+              <AlertDescription>You can now log in with your new password.</AlertDescription>
+            </Alert>
+        ) : (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Missing reset link</AlertTitle>
+              <AlertDescription>Open the link from your email, or request a new one.</AlertDescription>
+            </Alert>
+        )}
+        <Button asChild className="w-full">
+          <Link href={isDone ? '/login' : '/forgot-password'}>{isDone ? 'Go to login' : 'Request a new link'}</Link>
+        </Button>
+      </CardContent>
+    );
+  }
+
+  return (
+    <Form {...form}>
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+        <CardContent className="space-y-4">
+        {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Reset Failed</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+        )}
+        <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+            <FormItem>
+                <FormLabel>New Password</FormLabel>
+                <FormControl>
+                <Input type="password" placeholder="••••••••" {...field} />
+                </FormControl>
+                <FormMessage />
+            </FormItem>
+            )}
+        />
+        <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+            <FormItem>
+                <FormLabel>Confirm Password</FormLabel>
+                <FormControl>
+                <Input type="password" placeholder="••••••••" {...field} />
+                </FormControl>
+                <FormMessage />
+            </FormItem>
+            )}
+        />
+        </CardContent>
+        <CardFooter className="flex flex-col gap-4">
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set New Password
+        </Button>
+        </CardFooter>
+    </form>
+    </Form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-transparent p-4">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center items-center gap-2 mb-6">
+            <HeartPulse className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-primary">GlucoTrack</h1>
+        </div>
+        <Card className="bg-glass">
+            <CardHeader className="text-center">
+                <CardTitle className="text-2xl">Choose a New Password</CardTitle>
+                <CardDescription>Signing in again will be required on all your devices.</CardDescription>
+            </CardHeader>
+            <Suspense fallback={<CardContent className="flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></CardContent>}>
+              <ResetPasswordForm />
+            </Suspense>
+        </Card>
+      </div>
+    </div>
+  );
+}
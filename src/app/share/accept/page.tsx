@@ -0,0 +1,119 @@
+"use client";
+
+import { Suspense, useState } from 'react';
+import { acceptShareInvitation } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import Link from 'next/link';
+import { HeartPulse, Loader2, AlertTriangle, Users } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useToast } from '@/hooks/use-toast';
+
+function AcceptInvitation() {
+  const token = useSearchParams().get('token');
+  const { authState, user, refreshSharedWithMe } = useApp();
+  const { toast } = useToast();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const handleAccept = async () => {
+    if (!token) return;
+    setError(null);
+    setIsAccepting(true);
+    try {
+      const account = await acceptShareInvitation(token);
+      await refreshSharedWithMe();
+      toast({ title: 'Invitation accepted', description: `Pick ${account.name} from the switcher at the top to see their records.` });
+      router.push('/dashboard');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  if (authState === 'loading') {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Incomplete link</AlertTitle>
+        <AlertDescription>Open the invitation link from your email again.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (authState === 'loggedOut') {
+    const returnTo = encodeURIComponent(`/share/accept?token=${token}`);
+    return (
+      <>
+        <p className="text-sm text-muted-foreground text-center">
+          Log in or create an account with the email address the invitation was sent to, then open this link again.
+        </p>
+        <div className="flex gap-2">
+          <Button asChild className="flex-1"><Link href={`/login?returnTo=${returnTo}`}>Login</Link></Button>
+          <Button asChild variant="outline" className="flex-1"><Link href={`/signup?returnTo=${returnTo}`}>Sign up</Link></Button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Could not accept</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <p className="text-sm text-muted-foreground text-center">
+        Accept as {user?.email} to see their records from the switcher at the top of the app.
+      </p>
+      <Button className="w-full" onClick={handleAccept} disabled={isAccepting}>
+        {isAccepting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Users className="mr-2 h-4 w-4" />}
+        Accept Invitation
+      </Button>
+    </>
+  );
+}
+
+export default function AcceptSharePage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-transparent p-4">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center items-center gap-2 mb-6">
+            <HeartPulse className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-primary">GlucoTrack</h1>
+        </div>
+        <Card className="bg-glass">
+            <CardHeader className="text-center">
+                <CardTitle className="text-2xl">Shared Records</CardTitle>
+                <CardDescription>Someone invited you to follow their glucose records.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Suspense fallback={<div className="flex justify-center py-4"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>}>
+                <AcceptInvitation />
+              </Suspense>
+            </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
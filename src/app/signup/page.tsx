@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect } from 'react';
+import { Suspense, useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -27,7 +27,8 @@ import {
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import Link from 'next/link';
 import { HeartPulse, Loader2, AlertTriangle } from 'lucide-react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { getSafeReturnTo } from '@/lib/return-to';
 
 const signupSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters.'),
@@ -37,11 +38,13 @@ const signupSchema = z.object({
 
 type FormData = z.infer<typeof signupSchema>;
 
-export default function SignupPage() {
+function SignupContent() {
   const { signup, authState } = useApp();
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const router = useRouter();
+  const returnToParam = useSearchParams().get('returnTo');
+  const returnTo = getSafeReturnTo(returnToParam);
 
   const form = useForm<FormData>({
     resolver: zodResolver(signupSchema),
@@ -54,9 +57,9 @@ export default function SignupPage() {
 
   useEffect(() => {
     if (authState === 'loggedIn') {
-      router.push('/dashboard');
+      router.push(returnTo);
     }
-  }, [authState, router]);
+  }, [authState, router, returnTo]);
 
   const onSubmit = async (data: FormData) => {
     setError(null);
@@ -147,7 +150,7 @@ export default function SignupPage() {
                 </Button>
                 <p className="text-sm text-center text-muted-foreground">
                     Already have an account?{' '}
-                    <Link href="/login" className="font-medium text-primary hover:underline">
+                    <Link href={returnToParam ? `/login?returnTo=${encodeURIComponent(returnToParam)}` : '/login'} className="font-medium text-primary hover:underline">
                     Login
                     </Link>
                 </p>
@@ -159,3 +162,15 @@ export default function SignupPage() {
     </div>
   );
 }
+
+export default function SignupPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center bg-transparent">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    }>
+      <SignupContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
+import { AppLayout } from '@/components/AppLayout';
+import { useApp } from '@/context/app-context';
+import { getTrash, purgeGlucoseLogs, purgeWeightEntries } from '@/app/db-actions';
+import type { TrashContents } from '@/lib/types';
+import { formatGlucose, GLUCOSE_UNITS } from '@/lib/glucose-units';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+
+function countEntries(count: number): string {
+  return `${count} entr${count === 1 ? 'y' : 'ies'}`;
+}
+
+// Entries waiting for a permanent-delete confirmation.
+interface PendingPurge {
+  glucoseLogIds: string[];
+  weightEntryIds: string[];
+}
+
+export default function TrashPage() {
+  const { subject, glucoseUnit, accessRole, restoreGlucoseLogs, restoreWeightEntries } = useApp();
+  const [trash, setTrash] = useState<TrashContents | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+  const { toast } = useToast();
+  const subjectId = subject?.ownerId;
+
+  const loadTrash = useCallback(() => {
+    getTrash(subjectId)
+      .then(setTrash)
+      .catch((err: any) => setError(err.message));
+  }, [subjectId]);
+
+  useEffect(() => {
+    if (accessRole !== 'viewer') loadTrash();
+  }, [accessRole, loadTrash]);
+
+  const run = async (action: () => Promise<void>, description: string) => {
+    try {
+      await action();
+      toast({ title: 'Success!', description });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      loadTrash();
+    }
+  };
+
+  const confirmPurge = () => {
+    if (!pendingPurge) return;
+    const { glucoseLogIds, weightEntryIds } = pendingPurge;
+    setPendingPurge(null);
+    run(async () => {
+      await purgeGlucoseLogs(glucoseLogIds, subjectId);
+      await purgeWeightEntries(weightEntryIds, subjectId);
+    }, `${countEntries(glucoseLogIds.length + weightEntryIds.length)} deleted permanently.`);
+  };
+
+  const erasedIn = (deletedAt: string) => formatDistanceToNow(addDays(new Date(deletedAt), trash?.retentionDays ?? 0));
+  const isEmpty = !!trash && trash.glucoseLogs.length === 0 && trash.weightHistory.length === 0;
+
+  return (
+    <AppLayout>
+      <div className="flex flex-col gap-6">
+        <div className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Trash</h1>
+            <p className="text-muted-foreground">
+              Deleted entries can be restored for {trash?.retentionDays ?? '…'} days, then they are erased.
+            </p>
+          </div>
+          {trash && !isEmpty && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setPendingPurge({
+                glucoseLogIds: trash.glucoseLogs.map(log => log.id),
+                weightEntryIds: trash.weightHistory.map(entry => entry.id),
+              })}
+            >
+              <Trash2 className="h-3.5 w-3.5 mr-1" /> Empty Trash
+            </Button>
+          )}
+        </div>
+
+        {accessRole === 'viewer' ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Read-only access</AlertTitle>
+            <AlertDescription>Only people who can edit these records see their deleted entries.</AlertDescription>
+          </Alert>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Trash unavailable</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : !trash ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <Card className="bg-glass">
+              <CardHeader>
+                <CardTitle>Glucose Logs</CardTitle>
+                <CardDescription>{trash.glucoseLogs.length} deleted log(s).</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date & Time</TableHead>
+                      <TableHead>Meal Type</TableHead>
+                      <TableHead>Glycemia ({GLUCOSE_UNITS[glucoseUnit].label})</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead><span className="sr-only">Actions</span></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trash.glucoseLogs.length > 0 ? trash.glucoseLogs.map(log => (
+                      <TableRow key={log.id}>
+                        <TableCell className="font-medium">{format(new Date(log.timestamp), 'Pp')}</TableCell>
+                        <TableCell>{log.mealType}</TableCell>
+                        <TableCell>{formatGlucose(log.glycemia, glucoseUnit, { withUnit: false })}</TableCell>
+                        <TableCell>
+                          {format(new Date(log.deletedAt), 'Pp')}
+                          <p className="text-xs text-muted-foreground">Erased in {erasedIn(log.deletedAt)}</p>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => run(() => restoreGlucoseLogs([log.id]), 'Log entry restored.')}>
+                            <RotateCcw className="h-4 w-4 mr-1" /> Restore
+                          </Button>
+                          <Button variant="ghost" size="sm" className="text-destructive" onClick={() => setPendingPurge({ glucoseLogIds: [log.id], weightEntryIds: [] })}>
+                            <Trash2 className="h-4 w-4 mr-1" /> Delete Forever
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )) : (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center">No deleted logs.</TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-glass">
+              <CardHeader>
+                <CardTitle>Weight Entries</CardTitle>
+                <CardDescription>{countEntries(trash.weightHistory.length)} deleted.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Weight (kg)</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead><span className="sr-only">Actions</span></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trash.weightHistory.length > 0 ? trash.weightHistory.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="font-medium">{format(new Date(entry.date), 'Pp')}</TableCell>
+                        <TableCell>{entry.weight}</TableCell>
+                        <TableCell>
+                          {format(new Date(entry.deletedAt), 'Pp')}
+                          <p className="text-xs text-muted-foreground">Erased in {erasedIn(entry.deletedAt)}</p>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => run(() => restoreWeightEntries([entry.id]), 'Weight entry restored.')}>
+                            <RotateCcw className="h-4 w-4 mr-1" /> Restore
+                          </Button>
+                          <Button variant="ghost" size="sm" className="text-destructive" onClick={() => setPendingPurge({ glucoseLogIds: [], weightEntryIds: [entry.id] })}>
+                            <Trash2 className="h-4 w-4 mr-1" /> Delete Forever
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )) : (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center">No deleted weight entries.</TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={(open) => !open && setPendingPurge(null)}>
+        <AlertDialogContent className="bg-glass-popover">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete {countEntries(pendingPurge ? pendingPurge.glucoseLogIds.length + pendingPurge.weightEntryIds.length : 0)}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPurge}>Delete Forever</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
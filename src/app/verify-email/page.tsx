@@ -0,0 +1,101 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { verifyEmail } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import Link from 'next/link';
+import { HeartPulse, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useSearchParams } from 'next/navigation';
+
+function VerifyEmailStatus() {
+  const token = useSearchParams().get('token');
+  const { authState, refreshUser } = useApp();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so guard against the effect running twice.
+    if (started.current) return;
+    started.current = true;
+
+    if (!token) {
+      setError('This verification link is incomplete.');
+      setStatus('failed');
+      return;
+    }
+    verifyEmail(token)
+      .then(async () => {
+        setStatus('verified');
+        await refreshUser().catch(() => {});
+      })
+      .catch((err: any) => {
+        setError(err.message);
+        setStatus('failed');
+      });
+  }, [token, refreshUser]);
+
+  if (status === 'verifying') {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {status === 'verified' ? (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>Email confirmed</AlertTitle>
+          <AlertDescription>Thanks! Your email address has been verified.</AlertDescription>
+        </Alert>
+      ) : (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Verification Failed</AlertTitle>
+          <AlertDescription>{error} You can request a new link from the banner in the app.</AlertDescription>
+        </Alert>
+      )}
+      <Button asChild className="w-full">
+        <Link href={authState === 'loggedIn' ? '/dashboard' : '/login'}>
+          {authState === 'loggedIn' ? 'Go to dashboard' : 'Go to login'}
+        </Link>
+      </Button>
+    </>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-transparent p-4">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center items-center gap-2 mb-6">
+            <HeartPulse className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-primary">GlucoTrack</h1>
+        </div>
+        <Card className="bg-glass">
+            <CardHeader className="text-center">
+                <CardTitle className="text-2xl">Email Verification</CardTitle>
+                <CardDescription>Confirming your email address.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Suspense fallback={<div className="flex justify-center py-4"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>}>
+                <VerifyEmailStatus />
+              </Suspense>
+            </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -12,34 +12,60 @@ import {
   Menu,
   Sparkles,
   User,
-  Loader2
+  Loader2,
+  MailWarning,
+  Trash2,
+  Users,
+  Eye,
+  Stethoscope,
+  Thermometer
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Sheet, SheetContent, SheetTrigger, SheetClose } from "@/components/ui/sheet";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { cn } from "@/lib/utils";
 import { useApp } from "@/context/app-context";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { resendVerificationEmail, restoreAccount } from "@/app/db-actions";
+import { format } from "date-fns";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 const navItems = [
   { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
   { href: "/logs", label: "Glucose Logs", icon: BookText },
   { href: "/reports", label: "Reports", icon: BarChart3 },
   { href: "/reminders", label: "Smart Reminders", icon: Sparkles },
+  { href: "/trash", label: "Trash", icon: Trash2 },
   { href: "/profile", label: "Profile", icon: User },
 ];
 
+const clinicianNavItems = [
+  { href: "/clinic", label: "Clinic", icon: Stethoscope },
+];
+
+const useNavItems = () => {
+  const { user, accessRole } = useApp();
+  // Only people who can delete see the trash.
+  const items = accessRole === 'viewer' ? navItems.filter(item => item.href !== '/trash') : navItems;
+  return user?.role === 'clinician' ? [...items, ...clinicianNavItems] : items;
+};
+
 const NavLinks = () => {
   const pathname = usePathname();
+  const items = useNavItems();
   return (
     <nav className="grid items-start px-2 text-sm font-medium lg:px-4 gap-1">
-      {navItems.map(({ href, label, icon: Icon }) => (
+      {items.map(({ href, label, icon: Icon }) => (
         <Link
           key={label}
           href={href}
           className={cn(
             "flex items-center gap-3 rounded-lg px-3 py-2 text-muted-foreground transition-all hover:text-primary",
-            pathname === href && "bg-muted text-primary"
+            (pathname === href || pathname.startsWith(`${href}/`)) && "bg-muted text-primary"
           )}
         >
           <Icon className="h-4 w-4" />
@@ -50,8 +76,141 @@ const NavLinks = () => {
   );
 };
 
+const EmailVerificationBanner = ({ email }: { email: string }) => {
+  const { toast } = useToast();
+  const [isSending, setIsSending] = useState(false);
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await resendVerificationEmail();
+      toast({ title: 'Email sent', description: `A new verification link was sent to ${email}.` });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Alert className="bg-glass">
+      <MailWarning className="h-4 w-4" />
+      <AlertTitle>Please verify your email address</AlertTitle>
+      <AlertDescription className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <span>We sent a confirmation link to {email}. Sharing and data exports stay locked until it is confirmed.</span>
+        <Button variant="outline" size="sm" className="shrink-0" onClick={handleResend} disabled={isSending}>
+          {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Resend email
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+const PendingDeletionBanner = ({ deletionScheduledAt }: { deletionScheduledAt: string }) => {
+  const { refreshUser } = useApp();
+  const { toast } = useToast();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      await restoreAccount();
+      await refreshUser();
+      toast({ title: 'Account restored', description: 'Your account will no longer be deleted.' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Alert variant="destructive" className="bg-glass">
+      <Trash2 className="h-4 w-4" />
+      <AlertTitle>Your account is scheduled for deletion</AlertTitle>
+      <AlertDescription className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <span>All of your data will be erased on {format(new Date(deletionScheduledAt), 'PPP')}.</span>
+        <Button variant="outline" size="sm" className="shrink-0" onClick={handleRestore} disabled={isRestoring}>
+          {isRestoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Restore account
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+const SubjectSwitcher = () => {
+  const { sharedWithMe, subject, selectSubject } = useApp();
+  const { toast } = useToast();
+
+  const handleChange = async (value: string) => {
+    try {
+      await selectSubject(value === 'self' ? null : value);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Select value={subject?.ownerId ?? 'self'} onValueChange={handleChange}>
+      <SelectTrigger className="w-full md:w-[260px] bg-glass" aria-label="Whose records to show">
+        <Users className="mr-2 h-4 w-4 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="self">My records</SelectItem>
+        <SelectGroup>
+          <SelectLabel>Shared with me</SelectLabel>
+          {sharedWithMe.map(account => (
+            <SelectItem key={account.ownerId} value={account.ownerId}>
+              {account.name} ({account.role === 'logger' ? 'can log' : 'view only'})
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </SelectContent>
+    </Select>
+  );
+};
+
+// Sick-day mode tightens check reminders and shows guidance on the dashboard.
+// Viewers see its state but cannot change it.
+const SickDayToggle = () => {
+  const { activeSickDay, setSickDayMode, accessRole } = useApp();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = async (on: boolean) => {
+    setIsSaving(true);
+    try {
+      await setSickDayMode(on);
+      toast({
+        title: on ? 'Sick-day mode on' : 'Sick-day mode off',
+        description: on ? 'Check glucose and ketones more often. Guidance is on the dashboard.' : 'Back to your usual routine.',
+      });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center gap-2 rounded-md px-2 py-1", activeSickDay && "bg-destructive/10 text-destructive")}>
+      <Thermometer className="h-4 w-4 shrink-0" />
+      <Label htmlFor="sick-day-mode" className="text-sm whitespace-nowrap">Sick day</Label>
+      <Switch
+        id="sick-day-mode"
+        checked={!!activeSickDay}
+        onCheckedChange={handleChange}
+        disabled={isSaving || accessRole === 'viewer'}
+      />
+    </div>
+  );
+};
+
 export function AppLayout({ children }: { children: React.ReactNode }) {
-  const { authState, logout, user } = useApp();
+  const { authState, logout, user, sharedWithMe, subject } = useApp();
   const router = useRouter();
 
   useEffect(() => {
@@ -76,9 +235,10 @@ export function AppLayout({ children }: { children: React.ReactNode }) {
 
   const MobileNavContent = () => {
     const pathname = usePathname();
+    const items = useNavItems();
     return (
       <nav className="grid items-start px-4 text-sm font-medium gap-1">
-        {navItems.map(({ href, label, icon: Icon }) => (
+        {items.map(({ href, label, icon: Icon }) => (
           <SheetClose asChild key={label}>
             <Link
               href={href}
@@ -154,11 +314,25 @@ export function AppLayout({ children }: { children: React.ReactNode }) {
             </SheetContent>
           </Sheet>
           <div className="w-full flex-1">
-            {/* Can add search or other header items here */}
+            {sharedWithMe.length > 0 && <SubjectSwitcher />}
           </div>
+          <SickDayToggle />
           <ThemeToggle />
         </header>
         <main className="flex flex-1 flex-col gap-4 p-4 lg:gap-6 lg:p-6 bg-transparent">
+          {subject && (
+            <Alert className="bg-glass">
+              <Eye className="h-4 w-4" />
+              <AlertTitle>Viewing {subject.name}'s records</AlertTitle>
+              <AlertDescription>
+                {subject.role === 'logger'
+                  ? 'You can read and add entries on their behalf.'
+                  : 'You have read-only access to these records.'}
+              </AlertDescription>
+            </Alert>
+          )}
+          {user.deletionScheduledAt && <PendingDeletionBanner deletionScheduledAt={user.deletionScheduledAt} />}
+          {!user.emailVerified && <EmailVerificationBanner email={user.email} />}
           {children}
         </main>
       </div>
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { useApp } from '@/context/app-context';
+import type { Activity, ActivityIntensity, ActivityType } from '@/lib/types';
+import { ACTIVITY_INTENSITY_LABELS, ACTIVITY_TYPE_LABELS, formatActivity } from '@/lib/activities';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Footprints, Pencil, Trash2 } from 'lucide-react';
+
+const activitySchema = z.object({
+  type: z.enum(['walking', 'running', 'cycling', 'swimming', 'strength', 'sports', 'other']),
+  startedAt: z.string().min(1, 'Start time is required.'),
+  durationMinutes: z.coerce.number().int('Use whole minutes.').min(1, 'Duration is required.').max(1440, 'At most 24 hours.'),
+  intensity: z.enum(['light', 'moderate', 'vigorous']),
+  calories: z.union([z.literal(''), z.coerce.number().min(0, 'Calories must be 0 or more.')]).optional(),
+});
+
+type FormData = z.infer<typeof activitySchema>;
+
+const RECENT_ACTIVITY_COUNT = 5;
+
+function emptyForm(): FormData {
+  return {
+    type: 'walking',
+    startedAt: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+    durationMinutes: 30,
+    intensity: 'moderate',
+    calories: '',
+  };
+}
+
+// Dashboard card to log exercise and correct the last few sessions.
+export function ActivityCard() {
+  const { activities, addActivity, updateActivity, deleteActivity } = useApp();
+  const [editingActivity, setEditingActivity] = useState<Activity | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(activitySchema),
+    defaultValues: emptyForm(),
+  });
+
+  const run = async (action: () => Promise<void>, description: string) => {
+    try {
+      await action();
+      toast({ title: 'Success!', description });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const handleEdit = (activity: Activity) => {
+    setEditingActivity(activity);
+    form.reset({
+      ...activity,
+      startedAt: format(new Date(activity.startedAt), "yyyy-MM-dd'T'HH:mm"),
+      calories: activity.calories ?? '',
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingActivity(null);
+    form.reset(emptyForm());
+  };
+
+  const onSubmit = (values: FormData) => run(async () => {
+    const data = {
+      type: values.type as ActivityType,
+      startedAt: new Date(values.startedAt).toISOString(),
+      durationMinutes: values.durationMinutes,
+      intensity: values.intensity as ActivityIntensity,
+      calories: typeof values.calories === 'number' ? values.calories : null,
+    };
+    if (editingActivity) {
+      await updateActivity({ ...data, id: editingActivity.id });
+    } else {
+      await addActivity(data);
+    }
+    handleCancel();
+  }, editingActivity ? 'Activity updated.' : 'Activity logged.');
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Footprints className="h-6 w-6 text-primary" />
+          <CardTitle>{editingActivity ? 'Edit Activity' : 'Log Activity'}</CardTitle>
+        </div>
+        <CardDescription>Exercise lowers glucose for hours afterwards. It shows up on your reports chart.</CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Activity</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(ACTIVITY_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startedAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Started</FormLabel>
+                    <FormControl><Input type="datetime-local" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="durationMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration (min)</FormLabel>
+                    <FormControl><Input type="number" step="1" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="intensity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Intensity</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(ACTIVITY_INTENSITY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="calories"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Calories (kcal)</FormLabel>
+                    <FormControl><Input type="number" step="1" placeholder="Optional" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {activities.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Recent activities</p>
+                {activities.slice(0, RECENT_ACTIVITY_COUNT).map(activity => (
+                  <div key={activity.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="text-muted-foreground">{format(new Date(activity.startedAt), 'Pp')}</span> — {formatActivity(activity)}
+                      {activity.calories !== null && ` · ${activity.calories} kcal`}
+                    </span>
+                    <div className="flex">
+                      <Button type="button" size="icon" variant="ghost" onClick={() => handleEdit(activity)} aria-label="Edit activity">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" size="icon" variant="ghost" onClick={() => run(() => deleteActivity(activity.id), 'Activity deleted.')} aria-label="Delete activity">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+          <CardFooter className="gap-2">
+            <Button type="submit">{editingActivity ? 'Save Changes' : 'Save Activity'}</Button>
+            {editingActivity && <Button type="button" variant="outline" onClick={handleCancel}>Cancel</Button>}
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
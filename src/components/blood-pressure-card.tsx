@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { useApp } from '@/context/app-context';
+import type { BloodPressureArm, BloodPressureReading } from '@/lib/types';
+import { BLOOD_PRESSURE_ARM_LABELS, formatBloodPressure, isAtTarget } from '@/lib/blood-pressure';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { HeartPulse, Pencil, Trash2 } from 'lucide-react';
+
+const NO_ARM = 'unspecified';
+
+const bloodPressureSchema = z.object({
+  takenAt: z.string().min(1, 'Time is required.'),
+  systolic: z.coerce.number().int('Use whole numbers.').min(50, 'Too low.').max(300, 'Too high.'),
+  diastolic: z.coerce.number().int('Use whole numbers.').min(20, 'Too low.').max(200, 'Too high.'),
+  pulse: z.coerce.number().int('Use whole numbers.').min(20, 'Too low.').max(250, 'Too high.').optional().or(z.literal('')),
+  arm: z.enum(['left', 'right', NO_ARM]),
+}).refine(data => data.diastolic < data.systolic, { message: 'Must be lower than systolic.', path: ['diastolic'] });
+
+type FormData = z.infer<typeof bloodPressureSchema>;
+
+const RECENT_READING_COUNT = 3;
+
+function emptyForm(): FormData {
+  return { takenAt: format(new Date(), "yyyy-MM-dd'T'HH:mm"), systolic: 120, diastolic: 80, pulse: '', arm: NO_ARM };
+}
+
+export function BloodPressureCard() {
+  const { bloodPressureReadings, addBloodPressureReading, updateBloodPressureReading, deleteBloodPressureReading } = useApp();
+  const [editingReading, setEditingReading] = useState<BloodPressureReading | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(bloodPressureSchema),
+    defaultValues: emptyForm(),
+  });
+
+  const run = async (action: () => Promise<void>, description: string) => {
+    try {
+      await action();
+      toast({ title: 'Success!', description });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const handleEdit = (reading: BloodPressureReading) => {
+    setEditingReading(reading);
+    form.reset({
+      takenAt: format(new Date(reading.takenAt), "yyyy-MM-dd'T'HH:mm"),
+      systolic: reading.systolic,
+      diastolic: reading.diastolic,
+      pulse: reading.pulse ?? '',
+      arm: reading.arm ?? NO_ARM,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingReading(null);
+    form.reset(emptyForm());
+  };
+
+  const onSubmit = (values: FormData) => run(async () => {
+    const data = {
+      takenAt: new Date(values.takenAt).toISOString(),
+      systolic: values.systolic,
+      diastolic: values.diastolic,
+      pulse: typeof values.pulse === 'number' ? values.pulse : null,
+      arm: values.arm === NO_ARM ? null : values.arm as BloodPressureArm,
+    };
+    if (editingReading) {
+      await updateBloodPressureReading({ ...data, id: editingReading.id });
+    } else {
+      await addBloodPressureReading(data);
+    }
+    handleCancel();
+  }, editingReading ? 'Blood pressure updated.' : 'Blood pressure logged.');
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <HeartPulse className="h-6 w-6 text-primary" />
+          <CardTitle>{editingReading ? 'Edit Blood Pressure' : 'Log Blood Pressure'}</CardTitle>
+        </div>
+        <CardDescription>Sit quietly for five minutes first, and use the same arm each time.</CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <FormField
+                control={form.control}
+                name="takenAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time</FormLabel>
+                    <FormControl><Input type="datetime-local" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="systolic"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Systolic (mmHg)</FormLabel>
+                    <FormControl><Input type="number" step="1" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="diastolic"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Diastolic (mmHg)</FormLabel>
+                    <FormControl><Input type="number" step="1" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pulse"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pulse (bpm)</FormLabel>
+                    <FormControl><Input type="number" step="1" placeholder="Optional" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="arm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Arm</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_ARM}>Not recorded</SelectItem>
+                        {Object.entries(BLOOD_PRESSURE_ARM_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {bloodPressureReadings.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Recent readings</p>
+                {bloodPressureReadings.slice(0, RECENT_READING_COUNT).map(reading => (
+                  <div key={reading.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="text-muted-foreground">{format(new Date(reading.takenAt), 'Pp')}</span> — {formatBloodPressure(reading)}
+                      {reading.pulse !== null && ` · ${reading.pulse} bpm`}{' '}
+                      <Badge variant={isAtTarget(reading) ? 'secondary' : 'destructive'}>{isAtTarget(reading) ? 'At target' : 'Above target'}</Badge>
+                    </span>
+                    <div className="flex">
+                      <Button type="button" size="icon" variant="ghost" onClick={() => handleEdit(reading)} aria-label="Edit reading">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" size="icon" variant="ghost" onClick={() => run(() => deleteBloodPressureReading(reading.id), 'Blood pressure reading deleted.')} aria-label="Delete reading">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+          <CardFooter className="gap-2">
+            <Button type="submit">{editingReading ? 'Save Changes' : 'Save Reading'}</Button>
+            {editingReading && <Button type="button" variant="outline" onClick={handleCancel}>Cancel</Button>}
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
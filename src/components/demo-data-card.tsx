@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from 'react';
+import { useApp } from '@/context/app-context';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Wand2 } from 'lucide-react';
+
+// Offered on the dashboard of an account with no logs or weights yet.
+export function DemoDataCard() {
+  const { subject, glucoseLogs, weightHistory, loadDemoData } = useApp();
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  if (subject || glucoseLogs.length > 0 || weightHistory.length > 0) return null;
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    try {
+      await loadDemoData();
+      toast({ title: 'Success!', description: 'Demo data loaded.' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Wand2 className="h-6 w-6 text-primary" />
+          <CardTitle>Just looking around?</CardTitle>
+        </div>
+        <CardDescription>
+          Load three months of sample readings, insulin doses, hypos and weigh-ins to see what reports and reminders look like.
+          You can delete the entries later.
+        </CardDescription>
+      </CardHeader>
+      <CardFooter>
+        <Button variant="outline" onClick={handleLoad} disabled={isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Load Demo Data
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
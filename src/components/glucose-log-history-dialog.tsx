@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { getAuditHistory } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import type { AuditAction, AuditEvent, GlucoseLog, GlucoseUnit, Insulin, InsulinDose } from '@/lib/types';
+import { formatDoses } from '@/lib/insulins';
+import { formatGlucose } from '@/lib/glucose-units';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+
+const actionLabels: Record<AuditAction, { label: string; variant: 'secondary' | 'outline' | 'destructive' }> = {
+  create: { label: 'Created', variant: 'secondary' },
+  update: { label: 'Edited', variant: 'outline' },
+  delete: { label: 'Deleted', variant: 'destructive' },
+  restore: { label: 'Restored', variant: 'secondary' },
+};
+
+const fieldLabels: Record<string, string> = {
+  timestamp: 'Date & Time',
+  mealType: 'Meal Type',
+  glycemia: 'Glycemia',
+  doses: 'Insulin',
+  carbs: 'Carbs (g)',
+  mealDescription: 'Meal Description',
+  notes: 'Notes',
+  tags: 'Tags',
+  dosage: 'Dosage', // snapshots from before the insulin catalog
+};
+
+function formatValue(field: string, value: unknown, insulins: Insulin[], unit: GlucoseUnit): string {
+  if (field === 'doses' && Array.isArray(value)) return formatDoses(value as InsulinDose[], insulins);
+  if (field === 'glycemia' && typeof value === 'number') return formatGlucose(value, unit);
+  if (field === 'tags' && Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'timestamp' && typeof value === 'string') return format(new Date(value), 'Pp');
+  return String(value);
+}
+
+// Fields that differ between the two snapshots, or every field of the one
+// snapshot available for creations and deletions.
+function changedFields(event: AuditEvent): { field: string; before?: unknown; after?: unknown }[] {
+  const fields = Object.keys({ ...event.before, ...event.after }).filter(field => field !== 'id');
+  return fields
+    .filter(field => event.action !== 'update' || JSON.stringify(event.before?.[field]) !== JSON.stringify(event.after?.[field]))
+    .map(field => ({ field, before: event.before?.[field], after: event.after?.[field] }));
+}
+
+interface GlucoseLogHistoryDialogProps {
+  log: GlucoseLog | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function GlucoseLogHistoryDialog({ log, onOpenChange }: GlucoseLogHistoryDialogProps) {
+  const { subject, insulins, glucoseUnit } = useApp();
+  const [events, setEvents] = useState<AuditEvent[] | null>(null);
+
+  useEffect(() => {
+    if (!log) return;
+    setEvents(null);
+    getAuditHistory('glucose_log', log.id, subject?.ownerId)
+      .then(setEvents)
+      .catch(() => setEvents([]));
+  }, [log, subject?.ownerId]);
+
+  return (
+    <Dialog open={!!log} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-glass-popover">
+        <DialogHeader>
+          <DialogTitle>History</DialogTitle>
+          <DialogDescription>
+            {log && `Every change to the reading from ${format(new Date(log.timestamp), 'Pp')}.`}
+          </DialogDescription>
+        </DialogHeader>
+        {!events ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded for this reading.</p>
+        ) : (
+          <ol className="max-h-[60vh] space-y-4 overflow-y-auto">
+            {events.map(event => (
+              <li key={event.id} className="space-y-1 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={actionLabels[event.action].variant}>{actionLabels[event.action].label}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(event.createdAt), 'Pp')} · {event.actorName ?? 'Deleted account'}
+                  </span>
+                </div>
+                <ul className="text-xs">
+                  {changedFields(event).map(({ field, before, after }) => (
+                    <li key={field}>
+                      <span className="text-muted-foreground">{fieldLabels[field] ?? field}: </span>
+                      {event.action === 'update'
+                        ? <>{formatValue(field, before, insulins, glucoseUnit)} → {formatValue(field, after, insulins, glucoseUnit)}</>
+                        : formatValue(field, event.action === 'delete' ? before : after, insulins, glucoseUnit)}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, parseISO } from 'date-fns';
+import { useApp } from '@/context/app-context';
+import type { GlucoseLog, HbA1cResult } from '@/lib/types';
+import { ESTIMATE_WINDOW_DAYS, MIN_ESTIMATE_READINGS, estimateA1c, formatHbA1c, mmolMolToPercent } from '@/lib/hba1c';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+const hba1cSchema = z.object({
+  takenAt: z.string().min(1, 'Sample date is required.'),
+  value: z.union([z.literal(''), z.coerce.number()]).refine(value => typeof value === 'number' && value > 0, 'Enter the lab value.'),
+  unit: z.enum(['percent', 'mmolMol']),
+  labName: z.string().max(100, 'Keep it under 100 characters.').optional(),
+});
+
+type FormData = z.infer<typeof hba1cSchema>;
+
+const emptyForm = (): FormData => ({ takenAt: format(new Date(), 'yyyy-MM-dd'), value: '', unit: 'percent', labName: '' });
+
+interface ChartPoint {
+  time: number;
+  measured: number | null; // %
+  estimated: number | null; // %
+}
+
+interface HbA1cSectionProps {
+  results: HbA1cResult[];
+  glucoseLogs: GlucoseLog[];
+  // Adds the entry form and row actions; they write through the app context's subject.
+  editable?: boolean;
+}
+
+// Lab HbA1c next to the A1c estimated from the preceding 90 days of logged
+// glycemia. A steady gap points at meter drift; an unreliable estimate at logging gaps.
+export function HbA1cSection({ results, glucoseLogs, editable = false }: HbA1cSectionProps) {
+  const { addHbA1cResult, updateHbA1cResult, deleteHbA1cResult } = useApp();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isClient, setIsClient] = useState(false);
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(hba1cSchema),
+    defaultValues: emptyForm(),
+  });
+
+  const rows = useMemo(() => results.map(result => ({
+    result,
+    estimate: estimateA1c(glucoseLogs, new Date(result.takenAt)),
+  })), [results, glucoseLogs]);
+
+  const currentEstimate = useMemo(() => estimateA1c(glucoseLogs, new Date()), [glucoseLogs]);
+
+  const chartData = useMemo(() => {
+    const points: ChartPoint[] = rows.map(({ result, estimate }) => ({
+      time: new Date(result.takenAt).getTime(),
+      measured: result.percent,
+      estimated: estimate ? Number(estimate.percent.toFixed(2)) : null,
+    }));
+    if (currentEstimate) {
+      points.push({ time: Date.now(), measured: null, estimated: Number(currentEstimate.percent.toFixed(2)) });
+    }
+    return points.sort((a, b) => a.time - b.time);
+  }, [rows, currentEstimate]);
+
+  const run = async (action: () => Promise<void>, description: string) => {
+    try {
+      await action();
+      toast({ title: 'Success', description });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const handleEdit = (result: HbA1cResult) => {
+    setEditingId(result.id);
+    form.reset({
+      takenAt: format(new Date(result.takenAt), 'yyyy-MM-dd'),
+      value: Number(result.percent.toFixed(1)),
+      unit: 'percent',
+      labName: result.labName ?? '',
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    form.reset(emptyForm());
+  };
+
+  const onSubmit = (data: FormData) => run(async () => {
+    const value = Number(data.value);
+    const result = {
+      takenAt: parseISO(data.takenAt).toISOString(), // local midnight of the sample date
+      percent: data.unit === 'percent' ? value : mmolMolToPercent(value),
+      labName: data.labName || null,
+    };
+    if (editingId) {
+      await updateHbA1cResult({ id: editingId, ...result });
+    } else {
+      await addHbA1cResult(result);
+    }
+    handleCancelEdit();
+  }, editingId ? 'HbA1c result updated.' : 'HbA1c result added.');
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <CardTitle>HbA1c</CardTitle>
+        <CardDescription>
+          Lab results compared with an A1c estimated from the {ESTIMATE_WINDOW_DAYS} days of readings before each sample.
+          {currentEstimate && ` Current estimate: ${formatHbA1c(currentEstimate.percent)} from ${currentEstimate.readings} readings.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {chartData.length > 0 && (
+          <div className="h-[300px]">
+            {!isClient ? (
+              <Skeleton className="w-full h-full" />
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(time) => format(new Date(time), 'MMM yyyy')}
+                    stroke="hsl(var(--foreground))"
+                  />
+                  <YAxis domain={['dataMin - 0.5', 'dataMax + 0.5']} tickFormatter={(value) => Number(value).toFixed(1)} unit=" %" stroke="hsl(var(--foreground))" />
+                  <Tooltip
+                    labelFormatter={(time) => format(new Date(time), 'PPP')}
+                    formatter={(value: number) => formatHbA1c(value)}
+                    contentStyle={{ backgroundColor: 'hsl(var(--background))', border: '1px solid hsl(var(--border))' }}
+                  />
+                  <Legend />
+                  <Line name="Measured" dataKey="measured" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 4 }} connectNulls />
+                  <Line name="Estimated" dataKey="estimated" stroke="hsl(var(--muted-foreground))" strokeDasharray="5 5" dot={{ r: 3 }} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sample Date</TableHead>
+              <TableHead>Lab</TableHead>
+              <TableHead>Measured</TableHead>
+              <TableHead>Estimated</TableHead>
+              <TableHead>Difference</TableHead>
+              {editable && <TableHead><span className="sr-only">Actions</span></TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length > 0 ? rows.map(({ result, estimate }) => (
+              <TableRow key={result.id}>
+                <TableCell className="font-medium">{format(new Date(result.takenAt), 'PP')}</TableCell>
+                <TableCell>{result.labName ?? '—'}</TableCell>
+                <TableCell>{formatHbA1c(result.percent)}</TableCell>
+                <TableCell>
+                  {estimate ? (
+                    <>
+                      {formatHbA1c(estimate.percent)}
+                      <p className={`text-xs ${estimate.reliable ? 'text-muted-foreground' : 'text-destructive'}`}>
+                        {estimate.readings} readings{!estimate.reliable && ` — fewer than ${MIN_ESTIMATE_READINGS}, check for logging gaps`}
+                      </p>
+                    </>
+                  ) : '—'}
+                </TableCell>
+                <TableCell>{estimate ? `${estimate.percent - result.percent > 0 ? '+' : ''}${(estimate.percent - result.percent).toFixed(1)} %` : '—'}</TableCell>
+                {editable && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" aria-label="Edit result" onClick={() => handleEdit(result)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" aria-label="Delete result" onClick={() => run(() => deleteHbA1cResult(result.id), 'HbA1c result deleted.')}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={editable ? 6 : 5} className="text-center">No lab results yet.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {editable && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <FormField
+                  control={form.control}
+                  name="takenAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sample Date</FormLabel>
+                      <FormControl><Input type="date" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Value</FormLabel>
+                      <FormControl><Input type="number" step="0.1" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="percent">% (NGSP)</SelectItem>
+                          <SelectItem value="mmolMol">mmol/mol (IFCC)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="labName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lab</FormLabel>
+                      <FormControl><Input placeholder="Optional" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : editingId ? <Pencil className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+                  {editingId ? 'Save Result' : 'Add Result'}
+                </Button>
+                {editingId && <Button type="button" variant="ghost" onClick={handleCancelEdit}>Cancel</Button>}
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { useApp } from '@/context/app-context';
+import type { GlucoseLog } from '@/lib/types';
+import { formatGlucose } from '@/lib/glucose-units';
+import { DEFAULT_TREATMENT_CARBS, HYPO_RECHECK_MINUTES, HYPO_SYMPTOMS } from '@/lib/hypo';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+
+const hypoEventSchema = z.object({
+  symptoms: z.array(z.string()),
+  treatment: z.string().max(200, 'Keep it under 200 characters.'),
+  // '' is tried first: coercing it would turn a blank field into 0 g.
+  treatmentCarbs: z.union([z.literal(''), z.coerce.number().min(0, 'Carbs must be 0 or more.')]).optional(),
+});
+
+type FormData = z.infer<typeof hypoEventSchema>;
+
+interface HypoEventDialogProps {
+  // The low reading the event belongs to; the dialog is open while it is set.
+  log: GlucoseLog | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function HypoEventDialog({ log, onOpenChange }: HypoEventDialogProps) {
+  const { glucoseUnit, hypoEvents, recordHypoEvent, updateHypoEvent } = useApp();
+  const { toast } = useToast();
+  const event = log ? hypoEvents.find(e => e.logId === log.id) : undefined;
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(hypoEventSchema),
+    defaultValues: { symptoms: [], treatment: '', treatmentCarbs: DEFAULT_TREATMENT_CARBS },
+  });
+
+  useEffect(() => {
+    if (!log) return;
+    form.reset(event
+      ? { symptoms: event.symptoms, treatment: event.treatment ?? '', treatmentCarbs: event.treatmentCarbs ?? '' }
+      : { symptoms: [], treatment: '', treatmentCarbs: DEFAULT_TREATMENT_CARBS });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [log?.id]);
+
+  const onSubmit = async (values: FormData) => {
+    if (!log) return;
+    const data = {
+      symptoms: values.symptoms,
+      treatment: values.treatment || null,
+      treatmentCarbs: typeof values.treatmentCarbs === 'number' ? values.treatmentCarbs : null,
+    };
+    try {
+      if (event) {
+        await updateHypoEvent({ ...data, id: event.id });
+      } else {
+        await recordHypoEvent({ ...data, logId: log.id });
+      }
+      toast({ title: 'Success!', description: event ? 'Hypo event updated.' : `Hypo recorded. Recheck your glucose in ${HYPO_RECHECK_MINUTES} minutes.` });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={!!log} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-glass-popover">
+        <DialogHeader>
+          <DialogTitle>{event ? 'Edit Hypo Event' : 'Low Glucose'}</DialogTitle>
+          {log && (
+            <DialogDescription>
+              {formatGlucose(log.glycemia, glucoseUnit)} at {format(new Date(log.timestamp), 'Pp')}.
+              Take {DEFAULT_TREATMENT_CARBS} g of fast-acting carbs and recheck after {HYPO_RECHECK_MINUTES} minutes.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="symptoms"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Symptoms</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {HYPO_SYMPTOMS.map(symptom => (
+                      <label key={symptom} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(symptom)}
+                          onCheckedChange={(checked) => field.onChange(checked
+                            ? [...field.value, symptom]
+                            : field.value.filter(value => value !== symptom))}
+                        />
+                        {symptom}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="treatment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Treatment</FormLabel>
+                    <FormControl><Input placeholder="e.g., Glucose tablets" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="treatmentCarbs"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Carbs taken (g)</FormLabel>
+                    <FormControl><Input type="number" step="1" placeholder="Optional" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>{event ? 'Cancel' : 'Skip'}</Button>
+              <Button type="submit">{event ? 'Save Changes' : 'Record Hypo'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { addMinutes, format, isFuture, isPast } from 'date-fns';
+import { useApp } from '@/context/app-context';
+import { formatGlucose } from '@/lib/glucose-units';
+import { HYPO_RECHECK_MINUTES, HYPO_RECHECK_WINDOW_MINUTES } from '@/lib/hypo';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlarmClock } from 'lucide-react';
+
+// Dashboard reminder for a hypo whose recheck reading has not been logged yet.
+export function HypoRecheckAlert() {
+  const { hypoEvents, glucoseUnit } = useApp();
+  const open = hypoEvents.find(event =>
+    event.recheckLogId === null && isFuture(addMinutes(new Date(event.recheckDueAt), HYPO_RECHECK_WINDOW_MINUTES)));
+  if (!open) return null;
+
+  const dueAt = new Date(open.recheckDueAt);
+  return (
+    <Alert variant="destructive" className="bg-glass">
+      <AlarmClock className="h-4 w-4" />
+      <AlertTitle>{isPast(dueAt) ? 'Recheck your glucose now' : `Recheck your glucose at ${format(dueAt, 'p')}`}</AlertTitle>
+      <AlertDescription>
+        You logged {formatGlucose(open.glycemia, glucoseUnit)} at {format(new Date(open.occurredAt), 'p')}.
+        If you are still low, treat again and recheck after another {HYPO_RECHECK_MINUTES} minutes.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import Link from 'next/link';
+import { useFieldArray, type ArrayPath, type Control, type FieldValues, type Path } from 'react-hook-form';
+import * as z from 'zod';
+import { useApp } from '@/context/app-context';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { INSULIN_TYPE_LABELS } from '@/lib/insulins';
+import { Plus, X } from 'lucide-react';
+
+export const insulinDosesSchema = z.array(z.object({
+  insulinId: z.string().min(1, 'Select an insulin.'),
+  units: z.coerce.number().positive('Units must be more than 0.'),
+}));
+
+type DosesFormValues = FieldValues & { doses: z.infer<typeof insulinDosesSchema> };
+
+// One row per injection, picked from the subject's insulin catalog.
+export function InsulinDosesField<T extends DosesFormValues>({ control }: { control: Control<T> }) {
+  const { insulins, subject } = useApp();
+  const { fields, append, remove } = useFieldArray({ control, name: 'doses' as ArrayPath<T> });
+  const activeInsulins = insulins.filter(insulin => !insulin.archived);
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>Insulin</FormLabel>
+      {fields.map((field, index) => (
+        <div key={field.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`doses.${index}.insulinId` as Path<T>}
+            render={({ field: insulinField }) => (
+              <FormItem className="flex-1">
+                <Select onValueChange={insulinField.onChange} value={insulinField.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an insulin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {insulins
+                      .filter(insulin => !insulin.archived || insulin.id === insulinField.value)
+                      .map(insulin => (
+                        <SelectItem key={insulin.id} value={insulin.id}>
+                          {insulin.name} <span className="text-muted-foreground">· {INSULIN_TYPE_LABELS[insulin.type]}</span>
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`doses.${index}.units` as Path<T>}
+            render={({ field: unitsField }) => (
+              <FormItem className="w-24">
+                <FormControl>
+                  <Input type="number" step="0.5" min="0" aria-label="Units" placeholder="Units" {...unitsField} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="icon" aria-label="Remove injection" onClick={() => remove(index)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {activeInsulins.length > 0 ? (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ insulinId: activeInsulins[0].id, units: 0 } as Parameters<typeof append>[0])}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" /> Add injection
+        </Button>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {subject
+            ? `${subject.name} has not set up any insulins yet.`
+            : <>No insulins yet. <Link href="/profile" className="font-medium text-primary hover:underline">Add your insulins</Link> to record injections.</>}
+        </p>
+      )}
+    </div>
+  );
+}
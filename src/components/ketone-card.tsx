@@ -0,0 +1,142 @@
+"use client";
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { useApp } from '@/context/app-context';
+import type { KetoneMethod } from '@/lib/types';
+import { KETONE_METHOD_LABELS, KETONE_SEVERITY, URINE_KETONE_LEVELS, formatKetones, ketoneSeverity } from '@/lib/ketones';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { FlaskConical, Trash2 } from 'lucide-react';
+
+const ketoneSchema = z.object({
+  method: z.enum(['blood', 'urine']),
+  value: z.coerce.number().min(0, 'Ketones must be 0 or more.').max(20, 'At most 20 mmol/L.'),
+});
+
+type FormData = z.infer<typeof ketoneSchema>;
+
+const RECENT_READING_COUNT = 3;
+
+export function KetoneCard() {
+  const { ketoneReadings, addKetoneReading, deleteKetoneReading } = useApp();
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(ketoneSchema),
+    defaultValues: { method: 'blood', value: 0 },
+  });
+  const method = form.watch('method');
+
+  const run = async (action: () => Promise<void>, description: string) => {
+    try {
+      await action();
+      toast({ title: 'Success!', description });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const onSubmit = (values: FormData) => run(async () => {
+    const reading = { method: values.method as KetoneMethod, value: values.value, takenAt: new Date().toISOString() };
+    await addKetoneReading(reading);
+    const severity = ketoneSeverity(reading);
+    if (severity !== 'normal') {
+      toast({ title: `Ketones ${KETONE_SEVERITY[severity].label.toLowerCase()}`, description: KETONE_SEVERITY[severity].advice, variant: 'destructive' });
+    }
+    form.reset({ method: values.method, value: 0 });
+  }, 'Ketone reading added.');
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-6 w-6 text-primary" />
+          <CardTitle>Log Ketones</CardTitle>
+        </div>
+        <CardDescription>Check ketones when you are ill or your glucose stays high.</CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method</FormLabel>
+                    <Select onValueChange={(value) => { field.onChange(value); form.setValue('value', 0); }} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(KETONE_METHOD_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{method === 'blood' ? 'Ketones (mmol/L)' : 'Strip colour'}</FormLabel>
+                    {method === 'blood' ? (
+                      <FormControl><Input type="number" step="0.1" {...field} /></FormControl>
+                    ) : (
+                      <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {URINE_KETONE_LEVELS.map(level => (
+                            <SelectItem key={level.value} value={String(level.value)}>{level.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {ketoneReadings.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Recent readings</p>
+                {ketoneReadings.slice(0, RECENT_READING_COUNT).map(reading => {
+                  const severity = ketoneSeverity(reading);
+                  return (
+                    <div key={reading.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        <span className="text-muted-foreground">{format(new Date(reading.takenAt), 'Pp')}</span> — {formatKetones(reading)}{' '}
+                        <Badge variant={severity === 'normal' ? 'secondary' : 'destructive'}>{KETONE_SEVERITY[severity].label}</Badge>
+                      </span>
+                      <Button type="button" size="icon" variant="ghost" onClick={() => run(() => deleteKetoneReading(reading.id), 'Ketone reading deleted.')} aria-label="Delete reading">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+          <CardFooter>
+            <Button type="submit">Save Reading</Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { getActiveSessions, revokeOtherSessions, revokeSession } from '@/app/db-actions';
+import type { ActiveSession } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Monitor, Smartphone } from 'lucide-react';
+
+const BROWSERS: [RegExp, string][] = [[/Edg\//, 'Edge'], [/OPR\//, 'Opera'], [/Firefox\//, 'Firefox'], [/Chrome\//, 'Chrome'], [/Safari\//, 'Safari']];
+const SYSTEMS: [RegExp, string][] = [[/Android/, 'Android'], [/iPhone|iPad/, 'iOS'], [/Windows/, 'Windows'], [/Mac OS X/, 'macOS'], [/Linux/, 'Linux']];
+
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) return userAgent;
+  return [browser ?? 'Unknown browser', system].filter(Boolean).join(' on ');
+}
+
+export function ActiveSessionsCard() {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(() => {
+    getActiveSessions()
+      .then(setSessions)
+      .catch(() => setSessions([]));
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const run = async (id: string, action: () => Promise<void>, description: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast({ title: 'Success', description });
+      loadSessions();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const otherCount = sessions?.filter(s => !s.current).length ?? 0;
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription>Devices currently signed in to your account.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!sessions ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {sessions.map(session => {
+              const Icon = /Mobile|Android|iPhone/.test(session.userAgent ?? '') ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-start justify-between gap-4 text-sm">
+                  <div className="flex min-w-0 gap-3">
+                    <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {describeUserAgent(session.userAgent)}{' '}
+                        {session.current && <Badge variant="secondary" className="ml-1">This device</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ipAddress ?? 'Unknown IP'} · Signed in {format(new Date(session.createdAt), 'PP')} · Last seen {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="shrink-0"
+                      disabled={busyId !== null}
+                      onClick={() => run(session.id, () => revokeSession(session.id), 'The device has been signed out.')}
+                    >
+                      {busyId === session.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+      {otherCount > 0 && (
+        <CardFooter className="justify-end">
+          <Button
+            variant="destructive"
+            disabled={busyId !== null}
+            onClick={() => run('others', revokeOtherSessions, 'All other devices have been signed out.')}
+          >
+            {busyId === 'others' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign out everywhere else
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
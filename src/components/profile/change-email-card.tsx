@@ -0,0 +1,89 @@
+"use client";
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { changeEmail } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+const changeEmailSchema = z.object({
+  email: z.string().email('Invalid email address.'),
+  currentPassword: z.string().min(1, 'Current password is required.'),
+});
+
+type FormData = z.infer<typeof changeEmailSchema>;
+
+export function ChangeEmailCard() {
+  const { user, refreshUser, refreshProfile } = useApp();
+  const { toast } = useToast();
+  const form = useForm<FormData>({
+    resolver: zodResolver(changeEmailSchema),
+    defaultValues: { email: '', currentPassword: '' },
+  });
+
+  const onSubmit = async (data: FormData) => {
+    try {
+      const updatedUser = await changeEmail(data.email, data.currentPassword);
+      form.reset();
+      await Promise.all([refreshUser(), refreshProfile()]);
+      toast({ title: 'Success', description: `Check ${updatedUser.email} for a link to confirm your new address.` });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="bg-glass">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardHeader>
+            <CardTitle>Change Email</CardTitle>
+            <CardDescription>
+              Currently {user?.email}. The new address has to be verified again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="john.doe@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="current-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+          <CardFooter className="justify-end">
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Email
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
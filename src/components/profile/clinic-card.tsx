@@ -0,0 +1,136 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { getClinicLinks, respondToClinicLink, revokeClinicLink, setAccountRole } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import type { ClinicLink } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { Check, X } from 'lucide-react';
+
+export function ClinicCard() {
+  const { user, refreshUser } = useApp();
+  const { toast } = useToast();
+  const [links, setLinks] = useState<ClinicLink[]>([]);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const loadLinks = useCallback(() => {
+    getClinicLinks()
+      .then(({ asPatient }) => setLinks(asPatient))
+      .catch(() => setLinks([]));
+  }, []);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const run = async (action: () => Promise<void>, description: string) => {
+    try {
+      await action();
+      toast({ title: 'Success', description });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const handleRoleChange = async (checked: boolean) => {
+    setIsSwitching(true);
+    await run(async () => {
+      await setAccountRole(checked ? 'clinician' : 'patient');
+      await refreshUser();
+    }, checked ? 'Clinician workspace enabled.' : 'Clinician workspace disabled.');
+    setIsSwitching(false);
+  };
+
+  const pending = links.filter(link => link.status === 'pending');
+  const active = links.filter(link => link.status === 'active');
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <CardTitle>Clinicians</CardTitle>
+        <CardDescription>Give your care team read-only access to your reports.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending.length === 0 && active.length === 0 && (
+          <p className="text-sm text-muted-foreground">No clinician has access to your records.</p>
+        )}
+        {pending.length > 0 && (
+          <ul className="space-y-3">
+            {pending.map(link => (
+              <li key={link.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{link.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{link.email} wants to follow your records</p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label={`Approve ${link.email}`}
+                    onClick={() => run(async () => {
+                      await respondToClinicLink(link.id, true);
+                      loadLinks();
+                    }, `${link.name} can now view your reports.`)}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Decline ${link.email}`}
+                    onClick={() => run(async () => {
+                      await respondToClinicLink(link.id, false);
+                      loadLinks();
+                    }, 'Request declined.')}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {active.length > 0 && (
+          <ul className="space-y-3">
+            {active.map(link => (
+              <li key={link.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{link.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{link.email} · Read-only</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => run(async () => {
+                    await revokeClinicLink(link.id);
+                    loadLinks();
+                  }, `${link.name} no longer has access.`)}
+                >
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Separator />
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="clinician-mode" className="text-sm">
+            I am a healthcare professional
+            <span className="block text-xs font-normal text-muted-foreground">Adds a Clinic workspace to follow linked patients.</span>
+          </Label>
+          <Switch
+            id="clinician-mode"
+            checked={user?.role === 'clinician'}
+            disabled={isSwitching}
+            onCheckedChange={handleRoleChange}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { deleteAccount, exportUserData } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Loader2, Trash2 } from 'lucide-react';
+
+export function DeleteAccountCard() {
+  const { user, logout } = useApp();
+  const { toast } = useToast();
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [gracePeriod, setGracePeriod] = useState(true);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const data = await exportUserData();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `glucotrack-export-${format(new Date(), 'yyyy-MM-dd')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await deleteAccount(password, { gracePeriod });
+      toast({
+        title: gracePeriod ? 'Account scheduled for deletion' : 'Account deleted',
+        description: gracePeriod
+          ? 'Log in again within 14 days if you change your mind.'
+          : 'Your account and all of its data have been erased.',
+      });
+      await logout();
+      router.push('/login');
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      setIsConfirming(false);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-glass border-destructive/50">
+      <CardHeader>
+        <CardTitle>Delete Account</CardTitle>
+        <CardDescription>
+          Permanently erase your account together with all glucose logs and weight history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-2 rounded-md border p-3 md:flex-row md:items-center md:justify-between">
+          <p className="text-sm text-muted-foreground">
+            {user?.emailVerified
+              ? 'Download a copy of your data before it is gone.'
+              : 'Verify your email address to download a copy of your data.'}
+          </p>
+          <Button variant="outline" size="sm" className="shrink-0" onClick={handleExport} disabled={isExporting || !user?.emailVerified}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export my data
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="delete-account-password">Confirm your password</Label>
+          <Input id="delete-account-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox id="delete-account-grace" checked={gracePeriod} onCheckedChange={(checked) => setGracePeriod(checked === true)} />
+          <Label htmlFor="delete-account-grace" className="font-normal">
+            Keep my account restorable for 14 days
+          </Label>
+        </div>
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button variant="destructive" disabled={!password} onClick={() => setIsConfirming(true)}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete my account
+        </Button>
+      </CardFooter>
+
+      <AlertDialog open={isConfirming} onOpenChange={setIsConfirming}>
+        <AlertDialogContent className="bg-glass-popover">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {gracePeriod
+                ? 'You will be signed out everywhere. Your data is erased after 14 days unless you log in and restore the account.'
+                : 'This action cannot be undone. Your account and all of its health records will be erased immediately.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => { e.preventDefault(); handleDelete(); }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
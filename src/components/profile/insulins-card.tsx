@@ -0,0 +1,216 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { addInsulin, archiveInsulin, getInsulins, updateInsulin } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import type { Insulin, InsulinType } from '@/lib/types';
+import { INSULIN_TYPE_LABELS } from '@/lib/insulins';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Pencil, Plus, X } from 'lucide-react';
+
+const insulinSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required.'),
+  type: z.enum(['rapid', 'short', 'intermediate', 'long', 'mixed']),
+  concentration: z.coerce.number().int('Use a whole number.').positive('Concentration must be positive.'),
+  durationHours: z.coerce.number().positive('Duration must be positive.').optional().or(z.literal('')),
+});
+
+type FormData = z.infer<typeof insulinSchema>;
+
+const emptyForm: FormData = { name: '', type: 'rapid', concentration: 100, durationHours: '' };
+
+export function InsulinsCard() {
+  const { subject, refreshInsulins } = useApp();
+  const { toast } = useToast();
+  const [insulins, setInsulins] = useState<Insulin[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(insulinSchema),
+    defaultValues: emptyForm,
+  });
+
+  // Always the user's own catalog, even while they are viewing a shared account.
+  const loadInsulins = useCallback(() => {
+    getInsulins()
+      .then(all => setInsulins(all.filter(insulin => !insulin.archived)))
+      .catch(() => setInsulins([]));
+  }, []);
+
+  useEffect(() => {
+    loadInsulins();
+  }, [loadInsulins]);
+
+  const run = async (action: () => Promise<unknown>, description: string) => {
+    try {
+      await action();
+      loadInsulins();
+      if (!subject) await refreshInsulins();
+      toast({ title: 'Success', description });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const handleEdit = (insulin: Insulin) => {
+    setEditingId(insulin.id);
+    form.reset({
+      name: insulin.name,
+      type: insulin.type,
+      concentration: insulin.concentration,
+      durationHours: insulin.durationHours ?? '',
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    form.reset(emptyForm);
+  };
+
+  const onSubmit = (data: FormData) => {
+    const insulin = {
+      name: data.name,
+      type: data.type as InsulinType,
+      concentration: data.concentration,
+      durationHours: typeof data.durationHours === 'number' ? data.durationHours : null,
+    };
+    return run(async () => {
+      if (editingId) {
+        await updateInsulin({ id: editingId, ...insulin });
+      } else {
+        await addInsulin(insulin);
+      }
+      handleCancelEdit();
+    }, editingId ? `${insulin.name} updated.` : `${insulin.name} added to your insulins.`);
+  };
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <CardTitle>Insulins</CardTitle>
+        <CardDescription>The products you inject, offered when you log a reading.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!insulins ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : insulins.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No insulins yet. Add the ones you use below.</p>
+        ) : (
+          <ul className="space-y-3">
+            {insulins.map(insulin => (
+              <li key={insulin.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{insulin.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {INSULIN_TYPE_LABELS[insulin.type]} · U-{insulin.concentration}
+                    {insulin.durationHours !== null && ` · ${insulin.durationHours} h`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button variant="ghost" size="icon" aria-label={`Edit ${insulin.name}`} onClick={() => handleEdit(insulin)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${insulin.name}`}
+                    onClick={() => run(() => archiveInsulin(insulin.id), `${insulin.name} removed. Past injections keep it.`)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Lantus" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(INSULIN_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="concentration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Concentration (U/mL)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="durationHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration of action (h)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.5" placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : editingId ? <Pencil className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+                {editingId ? 'Save Insulin' : 'Add Insulin'}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={handleCancelEdit}>Cancel</Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { getShares, inviteCaregiver, revokeShare, updateShareRole } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import type { Share, ShareRole } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, UserPlus, X } from 'lucide-react';
+
+const inviteSchema = z.object({
+  email: z.string().email('Invalid email address.'),
+  role: z.enum(['viewer', 'logger']),
+});
+
+type FormData = z.infer<typeof inviteSchema>;
+
+const roleLabels: Record<ShareRole, string> = {
+  viewer: 'Can view',
+  logger: 'Can view & log',
+};
+
+export function SharingCard() {
+  const { user, sharedWithMe, refreshSharedWithMe } = useApp();
+  const { toast } = useToast();
+  const [shares, setShares] = useState<Share[] | null>(null);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { email: '', role: 'viewer' },
+  });
+
+  const loadShares = useCallback(() => {
+    getShares()
+      .then(setShares)
+      .catch(() => setShares([]));
+  }, []);
+
+  useEffect(() => {
+    loadShares();
+  }, [loadShares]);
+
+  const run = async (action: () => Promise<void>, description: string) => {
+    try {
+      await action();
+      toast({ title: 'Success', description });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const onSubmit = (data: FormData) => run(async () => {
+    await inviteCaregiver(data.email, data.role);
+    form.reset({ email: '', role: data.role });
+    loadShares();
+  }, `Invitation sent to ${data.email}.`);
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <CardTitle>Sharing</CardTitle>
+        <CardDescription>Let a caregiver follow your glucose and weight records.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {user?.emailVerified ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-2 md:items-end">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Invite by email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="caregiver@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="md:w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="viewer">{roleLabels.viewer}</SelectItem>
+                        <SelectItem value="logger">{roleLabels.logger}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                Invite
+              </Button>
+            </form>
+          </Form>
+        ) : (
+          <p className="text-sm text-muted-foreground">Verify your email address to share your records.</p>
+        )}
+
+        {!shares ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : shares.length > 0 && (
+          <ul className="space-y-3">
+            {shares.map(share => (
+              <li key={share.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{share.granteeName ?? share.email}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {share.email} {share.status === 'pending' && <Badge variant="outline" className="ml-1">Pending</Badge>}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Select
+                    value={share.role}
+                    onValueChange={(role) => run(async () => {
+                      await updateShareRole(share.id, role as ShareRole);
+                      loadShares();
+                    }, 'Access updated.')}
+                  >
+                    <SelectTrigger className="h-8 w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="viewer">{roleLabels.viewer}</SelectItem>
+                      <SelectItem value="logger">{roleLabels.logger}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Stop sharing with ${share.email}`}
+                    onClick={() => run(async () => {
+                      await revokeShare(share.id);
+                      loadShares();
+                    }, 'Access revoked.')}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {sharedWithMe.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <p className="text-sm font-medium">Shared with me</p>
+              <ul className="space-y-3">
+                {sharedWithMe.map(account => (
+                  <li key={account.shareId} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{account.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">{account.email} · {roleLabels[account.role]}</p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => run(async () => {
+                        await revokeShare(account.shareId);
+                        await refreshSharedWithMe();
+                      }, `You no longer have access to ${account.name}'s records.`)}
+                    >
+                      Leave
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { getSecurityEvents } from '@/app/db-actions';
+import type { SecurityEvent, SecurityEventType } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+
+const eventLabels: Record<SecurityEventType, { label: string; variant: 'secondary' | 'destructive' }> = {
+  login_succeeded: { label: 'Signed in', variant: 'secondary' },
+  login_failed: { label: 'Failed sign-in', variant: 'destructive' },
+  account_locked: { label: 'Temporarily locked', variant: 'destructive' },
+  two_factor_failed: { label: 'Wrong 2FA code', variant: 'destructive' },
+  two_factor_enabled: { label: '2FA enabled', variant: 'secondary' },
+  two_factor_disabled: { label: '2FA disabled', variant: 'destructive' },
+  recovery_code_used: { label: 'Recovery code used', variant: 'secondary' },
+  password_changed: { label: 'Password changed', variant: 'secondary' },
+  email_changed: { label: 'Email changed', variant: 'secondary' },
+};
+
+export function SignInActivityCard() {
+  const [events, setEvents] = useState<SecurityEvent[] | null>(null);
+
+  useEffect(() => {
+    getSecurityEvents()
+      .then(setEvents)
+      .catch(() => setEvents([]));
+  }, []);
+
+  const failedCount = events?.filter(e => e.type === 'login_failed' || e.type === 'two_factor_failed').length ?? 0;
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <CardTitle>Sign-in Activity</CardTitle>
+        <CardDescription>
+          Recent sign-ins and security changes on your account.{' '}
+          {failedCount > 0 && `${failedCount} failed attempt(s) listed below; if they were not you, consider changing your password.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!events ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sign-in activity recorded yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {events.map(event => (
+              <li key={event.id} className="flex items-start justify-between gap-4 text-sm">
+                <div className="min-w-0">
+                  <Badge variant={eventLabels[event.type].variant}>{eventLabels[event.type].label}</Badge>
+                  <p className="text-xs text-muted-foreground truncate pt-1">
+                    {event.ipAddress ?? 'Unknown IP'} · {event.userAgent ?? 'Unknown device'}
+                  </p>
+                </div>
+                <span className="shrink-0 text-xs text-muted-foreground">{format(new Date(event.createdAt), 'Pp')}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
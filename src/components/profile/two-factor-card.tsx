@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from 'react';
+import { beginTotpEnrollment, confirmTotpEnrollment, disableTotp } from '@/app/db-actions';
+import { useApp } from '@/context/app-context';
+import type { TotpEnrollment } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Loader2, ShieldCheck } from 'lucide-react';
+
+type Step = 'idle' | 'enrolling' | 'showingCodes' | 'disabling';
+
+export function TwoFactorCard() {
+  const { profile, refreshProfile } = useApp();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>('idle');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    setEnrollment(await beginTotpEnrollment());
+    setCode('');
+    setStep('enrolling');
+  });
+
+  const handleConfirm = () => run(async () => {
+    setRecoveryCodes(await confirmTotpEnrollment(code));
+    setEnrollment(null);
+    setStep('showingCodes');
+  });
+
+  const handleFinish = () => run(async () => {
+    setRecoveryCodes([]);
+    setStep('idle');
+    await refreshProfile();
+    toast({ title: 'Success', description: 'Two-factor authentication is on.' });
+  });
+
+  const handleDisable = () => run(async () => {
+    await disableTotp(password);
+    setPassword('');
+    setStep('idle');
+    await refreshProfile();
+    toast({ title: 'Success', description: 'Two-factor authentication has been turned off.' });
+  });
+
+  const isEnabled = !!profile?.twoFactorEnabled;
+
+  return (
+    <Card className="bg-glass">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <Badge variant={isEnabled ? 'default' : 'secondary'}>{isEnabled ? 'On' : 'Off'}</Badge>
+        </div>
+        <CardDescription>Require a code from an authenticator app when signing in.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === 'enrolling' && enrollment && (
+          <>
+            <p className="text-sm">
+              Add GlucoTrack to your authenticator app by{' '}
+              <a href={enrollment.otpauthUri} className="font-medium text-primary hover:underline">opening this setup link</a>{' '}
+              on your phone, or by entering this key manually:
+            </p>
+            <code className="block rounded-md bg-muted px-3 py-2 text-sm break-all">{enrollment.secret.match(/.{1,4}/g)?.join(' ')}</code>
+            <div className="space-y-2">
+              <Label htmlFor="totp-code">Code from the app</Label>
+              <Input id="totp-code" autoComplete="one-time-code" placeholder="123456" value={code} onChange={(e) => setCode(e.target.value)} />
+            </div>
+          </>
+        )}
+        {step === 'showingCodes' && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>Save your recovery codes</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>Each code can be used once to sign in if you lose your phone. They will not be shown again.</p>
+              <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+                {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+        {step === 'disabling' && (
+          <div className="space-y-2">
+            <Label htmlFor="disable-2fa-password">Confirm your password</Label>
+            <Input id="disable-2fa-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+          </div>
+        )}
+        {step === 'idle' && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <ShieldCheck className="h-4 w-4" />
+            {isEnabled ? 'Your account is protected by a second factor.' : 'Your account is only protected by your password.'}
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="justify-end gap-2">
+        {step === 'idle' && (
+          isEnabled ? (
+            <Button variant="outline" onClick={() => setStep('disabling')}>Turn Off</Button>
+          ) : (
+            <Button onClick={handleStart} disabled={isBusy}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Set Up
+            </Button>
+          )
+        )}
+        {(step === 'enrolling' || step === 'disabling') && (
+          <Button variant="outline" onClick={() => setStep('idle')}>Cancel</Button>
+        )}
+        {step === 'enrolling' && (
+          <Button onClick={handleConfirm} disabled={isBusy || code.trim().length < 6}>
+            {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify & Enable
+          </Button>
+        )}
+        {step === 'disabling' && (
+          <Button variant="destructive" onClick={handleDisable} disabled={isBusy || !password}>
+            {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Turn Off
+          </Button>
+        )}
+        {step === 'showingCodes' && (
+          <Button onClick={handleFinish} disabled={isBusy}>I've saved them</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
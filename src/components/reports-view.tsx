@@ -0,0 +1,461 @@
+"use client";
+
+import { useState, useMemo, useEffect } from 'react';
+import type { Activity, BloodPressureReading, GlucoseLog, GlucoseUnit, HypoEvent, SickDayPeriod, WeightEntry } from '@/lib/types';
+import { useApp } from '@/context/app-context';
+import { GLUCOSE_UNITS, formatGlucose, toDisplayGlucose } from '@/lib/glucose-units';
+import { ACTIVITY_TYPE_LABELS } from '@/lib/activities';
+import { BLOOD_PRESSURE_TARGET, summarizeBloodPressure } from '@/lib/blood-pressure';
+import { countByTimeOfDay } from '@/lib/hypo';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bar, BarChart, Line, LineChart, CartesianGrid, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine, type TooltipProps } from 'recharts';
+import { format, subDays } from 'date-fns';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlarmClock, ArrowDown, ArrowUp, Gauge, HeartPulse, Scale, Target, TrendingDown, TrendingUp, TriangleAlert, Wheat } from 'lucide-react';
+
+const StatCard = ({ title, value, unit, icon: Icon, trend, trendText }: { title: string, value: string, unit?: string, icon: React.ElementType, trend?: 'up' | 'down' | 'stable', trendText?: string }) => {
+    const TrendIcon = trend === 'up' ? TrendingUp : trend === 'down' ? TrendingDown : null;
+    const trendColor = trend === 'up' ? 'text-red-500' : trend === 'down' ? 'text-green-500' : 'text-muted-foreground';
+
+    return (
+        <Card className="bg-glass">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{title}</CardTitle>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+                <div className="text-2xl font-bold">{value} {unit && <span className="text-sm font-normal text-muted-foreground">{unit}</span>}</div>
+                {trend && TrendIcon && trendText && (
+                    <p className={`text-xs flex items-center ${trendColor}`}>
+                        <TrendIcon className="mr-1 h-3 w-3" />
+                        {trendText}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+// Glycemia plus what was eaten, so a high reading can be traced back to a meal.
+const GlucoseTooltip = ({ active, payload, unit }: TooltipProps<number, string> & { unit: GlucoseUnit }) => {
+    const log = payload?.[0]?.payload as GlucoseLog | undefined;
+    if (!active || !log) return null;
+    return (
+        <div className="rounded-lg border bg-glass-popover p-2 text-sm shadow-sm">
+            <p className="font-medium">{format(new Date(log.timestamp), 'PPP p')}</p>
+            <p>Glycemia: {formatGlucose(log.glycemia, unit)}</p>
+            <p className="text-muted-foreground">
+                {log.mealType}{log.carbs !== null && ` · ${log.carbs} g carbs`}
+            </p>
+            {log.mealDescription && <p className="text-muted-foreground">{log.mealDescription}</p>}
+        </div>
+    );
+};
+
+interface ReportsViewProps {
+  glucoseLogs: GlucoseLog[];
+  weightHistory: WeightEntry[];
+  activities?: Activity[];
+  sickDayPeriods?: SickDayPeriod[];
+  bloodPressureReadings?: BloodPressureReading[];
+  hypoEvents?: HypoEvent[];
+  // Shown above the statistics instead of the default heading, e.g. a patient's name.
+  title?: string;
+  description?: string;
+}
+
+export function ReportsView({ glucoseLogs, weightHistory, activities = [], sickDayPeriods = [], bloodPressureReadings = [], hypoEvents = [], title = 'Reports Dashboard', description = 'Your health statistics for the selected period.' }: ReportsViewProps) {
+  const { glucoseUnit } = useApp();
+  const unitLabel = GLUCOSE_UNITS[glucoseUnit].label;
+  const [timeRange, setTimeRange] = useState('7'); // Default to 7 days
+  const [isClient, setIsClient] = useState(false);
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  const { filteredGlucose, filteredWeight, filteredActivities, filteredSickDays, filteredBloodPressure, filteredHypos } = useMemo(() => {
+    const days = parseInt(timeRange);
+    const endDate = new Date();
+    const startDate = subDays(endDate, days);
+    
+    const fGlucose = glucoseLogs
+      .filter(log => {
+        const logDate = new Date(log.timestamp);
+        return logDate >= startDate && logDate <= endDate;
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    const fWeight = weightHistory
+        .filter(entry => {
+            const entryDate = new Date(entry.date);
+            return entryDate >= startDate && entryDate <= endDate;
+        })
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    const fActivities = activities.filter(activity => {
+        const startedAt = new Date(activity.startedAt);
+        return startedAt >= startDate && startedAt <= endDate;
+    });
+
+    // Clipped to the range so a long illness does not stretch the chart.
+    const fSickDays = sickDayPeriods
+        .filter(period => new Date(period.startedAt) <= endDate && (period.endedAt === null || new Date(period.endedAt) >= startDate))
+        .map(period => ({
+            id: period.id,
+            from: Math.max(new Date(period.startedAt).getTime(), startDate.getTime()),
+            to: period.endedAt ? Math.min(new Date(period.endedAt).getTime(), endDate.getTime()) : endDate.getTime(),
+        }));
+
+    const fBloodPressure = bloodPressureReadings
+        .filter(reading => {
+            const takenAt = new Date(reading.takenAt);
+            return takenAt >= startDate && takenAt <= endDate;
+        })
+        .sort((a, b) => new Date(a.takenAt).getTime() - new Date(b.takenAt).getTime());
+
+    const fHypos = hypoEvents.filter(event => {
+        const occurredAt = new Date(event.occurredAt);
+        return occurredAt >= startDate && occurredAt <= endDate;
+    });
+
+    return { filteredGlucose: fGlucose, filteredWeight: fWeight, filteredActivities: fActivities, filteredSickDays: fSickDays, filteredBloodPressure: fBloodPressure, filteredHypos: fHypos };
+  }, [glucoseLogs, weightHistory, activities, sickDayPeriods, bloodPressureReadings, hypoEvents, timeRange]);
+
+  const averageCarbs = useMemo(() => {
+    const carbs = filteredGlucose.flatMap(log => log.carbs !== null ? [log.carbs] : []);
+    return carbs.length > 0 ? carbs.reduce((a, b) => a + b, 0) / carbs.length : null;
+  }, [filteredGlucose]);
+
+  const glucoseStats = useMemo(() => {
+    if (filteredGlucose.length === 0) return { avg: 0, max: 0, min: 0 };
+    const values = filteredGlucose.map(log => log.glycemia);
+    const sum = values.reduce((a, b) => a + b, 0);
+    return {
+      avg: sum / values.length,
+      max: Math.max(...values),
+      min: Math.min(...values),
+    }
+  }, [filteredGlucose]);
+
+  const bloodPressureStats = useMemo(() => summarizeBloodPressure(filteredBloodPressure), [filteredBloodPressure]);
+
+  const hypoStats = useMemo(() => {
+    if (filteredHypos.length === 0) return { lowest: null, rechecked: null, byTimeOfDay: countByTimeOfDay([]) };
+    return {
+      lowest: Math.min(...filteredHypos.map(event => event.glycemia)),
+      rechecked: filteredHypos.filter(event => event.recheckLogId !== null).length / filteredHypos.length,
+      byTimeOfDay: countByTimeOfDay(filteredHypos),
+    };
+  }, [filteredHypos]);
+
+  const weightStats = useMemo(() => {
+    if (filteredWeight.length < 2) return { change: 0, trend: 'stable' };
+    const firstWeight = filteredWeight[0].weight;
+    const lastWeight = filteredWeight[filteredWeight.length - 1].weight;
+    const change = lastWeight - firstWeight;
+    return {
+      change: change,
+      trend: change > 0 ? 'up' : change < 0 ? 'down' : 'stable',
+    }
+  }, [filteredWeight]);
+  
+  const sortedGlucoseForChart = useMemo(() => [...filteredGlucose]
+    .sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map(log => ({ ...log, time: new Date(log.timestamp).getTime(), displayGlycemia: toDisplayGlucose(log.glycemia, glucoseUnit) })), [filteredGlucose, glucoseUnit]);
+  const glucoseAxisPadding = toDisplayGlucose(0.2, glucoseUnit);
+
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card className="bg-glass">
+          <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between">
+          <div>
+              <CardTitle>{title}</CardTitle>
+              <CardDescription>
+              {description}
+              </CardDescription>
+          </div>
+          <div className="mt-4 md:mt-0">
+              <Select value={timeRange} onValueChange={setTimeRange}>
+              <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Select time range" />
+              </SelectTrigger>
+              <SelectContent>
+                  <SelectItem value="7">Last 7 Days</SelectItem>
+                  <SelectItem value="14">Last 14 Days</SelectItem>
+                  <SelectItem value="30">Last 30 Days</SelectItem>
+              </SelectContent>
+              </Select>
+          </div>
+          </CardHeader>
+          <CardContent>
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
+                  <StatCard title="Avg. Glucose" value={formatGlucose(glucoseStats.avg, glucoseUnit, { withUnit: false })} unit={unitLabel} icon={Gauge} />
+                  <StatCard title="Highest Glucose" value={formatGlucose(glucoseStats.max, glucoseUnit, { withUnit: false })} unit={unitLabel} icon={ArrowUp} />
+                  <StatCard title="Lowest Glucose" value={formatGlucose(glucoseStats.min, glucoseUnit, { withUnit: false })} unit={unitLabel} icon={ArrowDown} />
+                  <StatCard title="Avg. Carbs" value={averageCarbs !== null ? averageCarbs.toFixed(0) : '—'} unit={averageCarbs !== null ? 'g / entry' : undefined} icon={Wheat} />
+                  <StatCard 
+                      title="Weight Change" 
+                      value={`${weightStats.change > 0 ? '+' : ''}${weightStats.change.toFixed(1)}`} 
+                      unit="kg" 
+                      icon={Scale} 
+                      trend={weightStats.trend as "up" | "down" | "stable"}
+                      trendText={weightStats.trend === 'up' ? 'Trending up' : weightStats.trend === 'down' ? 'Trending down' : 'Stable'}
+                  />
+              </div>
+          </CardContent>
+      </Card>
+
+      <Card className="bg-glass">
+          <CardHeader>
+              <CardTitle>Glucose Trends</CardTitle>
+              <CardDescription>
+              Your glucose levels over time. Dashed lines mark the start of physical activity; red bands mark sick days.
+              </CardDescription>
+          </CardHeader>
+          <CardContent>
+          <div className="h-[400px]">
+              {!isClient ? (
+                  <div className="flex items-center justify-center h-full">
+                      <Skeleton className="w-full h-full" />
+                  </div>
+              ) : sortedGlucoseForChart.length > 0 ? (
+                  <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={sortedGlucoseForChart}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+                      <XAxis 
+                          dataKey="time" 
+                          type="number"
+                          scale="time"
+                          domain={['dataMin', 'dataMax']}
+                          tickFormatter={(time) => format(new Date(time), 'MMM d')}
+                          stroke="hsl(var(--foreground))"
+                          />
+                      <YAxis 
+                          domain={[`dataMin - ${glucoseAxisPadding}`, `dataMax + ${glucoseAxisPadding}`]} 
+                          stroke="hsl(var(--foreground))"
+                      />
+                      <Tooltip content={<GlucoseTooltip unit={glucoseUnit} />} />
+                      {filteredSickDays.map(period => (
+                          <ReferenceArea
+                              key={period.id}
+                              x1={period.from}
+                              x2={period.to}
+                              ifOverflow="extendDomain"
+                              fill="hsl(var(--destructive))"
+                              fillOpacity={0.1}
+                              label={{ value: 'Sick day', position: 'insideTopRight', fontSize: 10, fill: 'hsl(var(--destructive))' }}
+                          />
+                      ))}
+                      {filteredActivities.map(activity => (
+                          <ReferenceLine
+                              key={activity.id}
+                              x={new Date(activity.startedAt).getTime()}
+                              ifOverflow="extendDomain"
+                              stroke="hsl(var(--accent-foreground) / 0.6)"
+                              strokeDasharray="4 4"
+                              label={{ value: `${ACTIVITY_TYPE_LABELS[activity.type]} ${activity.durationMinutes}′`, position: 'insideTopLeft', fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                          />
+                      ))}
+                      <Line 
+                          type="monotone" 
+                          dataKey="displayGlycemia" 
+                          stroke="hsl(var(--primary))" 
+                          strokeWidth={2}
+                          dot={{ r: 4, fill: "hsl(var(--primary))" }}
+                          activeDot={{ r: 6 }}
+                      />
+                      </LineChart>
+                  </ResponsiveContainer>
+              ) : (
+                  <div className="flex items-center justify-center h-full">
+                      <p className="text-muted-foreground">No glucose data available for the selected time range.</p>
+                  </div>
+              )}
+          </div>
+          </CardContent>
+      </Card>
+      
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="bg-glass">
+            <CardHeader>
+                <CardTitle>Weight Trends</CardTitle>
+                <CardDescription>
+                Your weight history over time.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+            <div className="h-[400px]">
+                {!isClient ? (
+                    <div className="flex items-center justify-center h-full">
+                        <Skeleton className="w-full h-full" />
+                    </div>
+                ) : filteredWeight.length > 0 ? (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={filteredWeight}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+                        <XAxis 
+                            dataKey="date" 
+                            tickFormatter={(str) => format(new Date(str), 'MMM d')}
+                            stroke="hsl(var(--foreground))"
+                            />
+                        <YAxis 
+                            domain={['dataMin - 2', 'dataMax + 2']} 
+                            stroke="hsl(var(--foreground))"
+                            />
+                        <Tooltip 
+                            labelFormatter={(label) => format(new Date(label), 'PPP')}
+                            formatter={(value) => [`${value} kg`, 'Weight']}
+                            contentStyle={{
+                                background: 'hsla(var(--card) / 0.75)',
+                                backdropFilter: 'blur(12px)',
+                                borderColor: 'hsla(var(--border) / 0.2)'
+                            }}
+                        />
+                        <Line 
+                            type="monotone" 
+                            dataKey="weight" 
+                            stroke="hsl(var(--primary))" 
+                            strokeWidth={2}
+                            dot={{ r: 4, fill: "hsl(var(--primary))" }}
+                            activeDot={{ r: 6 }}
+                        />
+                        </LineChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <div className="flex items-center justify-center h-full">
+                        <p className="text-muted-foreground">No weight data available for the selected time range.</p>
+                    </div>
+                )}
+            </div>
+            </CardContent>
+        </Card>
+
+        <Card className="bg-glass">
+            <CardHeader>
+                <CardTitle>Blood Pressure</CardTitle>
+                <CardDescription>
+                Systolic and diastolic readings against the {BLOOD_PRESSURE_TARGET.systolic}/{BLOOD_PRESSURE_TARGET.diastolic} mmHg target.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+            <div className="h-[400px]">
+                {!isClient ? (
+                    <div className="flex items-center justify-center h-full">
+                        <Skeleton className="w-full h-full" />
+                    </div>
+                ) : filteredBloodPressure.length > 0 ? (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={filteredBloodPressure}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+                        <XAxis 
+                            dataKey="takenAt" 
+                            tickFormatter={(str) => format(new Date(str), 'MMM d')}
+                            stroke="hsl(var(--foreground))"
+                            />
+                        <YAxis 
+                            domain={['dataMin - 10', 'dataMax + 10']} 
+                            stroke="hsl(var(--foreground))"
+                            />
+                        <Tooltip 
+                            labelFormatter={(label) => format(new Date(label), 'PPP p')}
+                            formatter={(value, name) => [`${value} ${name === 'Pulse' ? 'bpm' : 'mmHg'}`, name]}
+                            contentStyle={{
+                                background: 'hsla(var(--card) / 0.75)',
+                                backdropFilter: 'blur(12px)',
+                                borderColor: 'hsla(var(--border) / 0.2)'
+                            }}
+                        />
+                        <ReferenceLine y={BLOOD_PRESSURE_TARGET.systolic} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                        <ReferenceLine y={BLOOD_PRESSURE_TARGET.diastolic} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                        <Line type="monotone" name="Systolic" dataKey="systolic" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 4, fill: "hsl(var(--primary))" }} />
+                        <Line type="monotone" name="Diastolic" dataKey="diastolic" stroke="hsl(var(--accent-foreground))" strokeWidth={2} dot={{ r: 4, fill: "hsl(var(--accent-foreground))" }} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <div className="flex items-center justify-center h-full">
+                        <p className="text-muted-foreground">No blood pressure data available for the selected time range.</p>
+                    </div>
+                )}
+            </div>
+            </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-glass">
+          <CardHeader>
+              <CardTitle>Blood Pressure Averages</CardTitle>
+              <CardDescription>
+              {bloodPressureStats.count} reading{bloodPressureStats.count === 1 ? '' : 's'} in the selected period.
+              </CardDescription>
+          </CardHeader>
+          <CardContent>
+              <div className="grid gap-4 md:grid-cols-3">
+                  <StatCard
+                      title="Avg. Blood Pressure"
+                      value={bloodPressureStats.systolic !== null && bloodPressureStats.diastolic !== null ? `${Math.round(bloodPressureStats.systolic)}/${Math.round(bloodPressureStats.diastolic)}` : '—'}
+                      unit={bloodPressureStats.count > 0 ? 'mmHg' : undefined}
+                      icon={HeartPulse}
+                  />
+                  <StatCard title="Avg. Pulse" value={bloodPressureStats.pulse !== null ? bloodPressureStats.pulse.toFixed(0) : '—'} unit={bloodPressureStats.pulse !== null ? 'bpm' : undefined} icon={Gauge} />
+                  <StatCard title="At Target" value={bloodPressureStats.atTarget !== null ? `${Math.round(bloodPressureStats.atTarget * 100)}` : '—'} unit={bloodPressureStats.atTarget !== null ? '% of readings' : undefined} icon={Target} />
+              </div>
+          </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="bg-glass">
+            <CardHeader>
+                <CardTitle>Hypoglycemia</CardTitle>
+                <CardDescription>Recorded hypo events in the selected period.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-1 xl:grid-cols-3">
+                    <StatCard title="Hypo Events" value={String(filteredHypos.length)} icon={TriangleAlert} />
+                    <StatCard title="Lowest Reading" value={hypoStats.lowest !== null ? formatGlucose(hypoStats.lowest, glucoseUnit, { withUnit: false }) : '—'} unit={hypoStats.lowest !== null ? unitLabel : undefined} icon={ArrowDown} />
+                    <StatCard title="Rechecked" value={hypoStats.rechecked !== null ? `${Math.round(hypoStats.rechecked * 100)}` : '—'} unit={hypoStats.rechecked !== null ? '% of events' : undefined} icon={AlarmClock} />
+                </div>
+            </CardContent>
+        </Card>
+        <Card className="bg-glass">
+            <CardHeader>
+                <CardTitle>Hypos by Time of Day</CardTitle>
+                <CardDescription>When lows happen most often.</CardDescription>
+            </CardHeader>
+            <CardContent>
+            <div className="h-[250px]">
+                {!isClient ? (
+                    <div className="flex items-center justify-center h-full">
+                        <Skeleton className="w-full h-full" />
+                    </div>
+                ) : filteredHypos.length > 0 ? (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={hypoStats.byTimeOfDay}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+                        <XAxis dataKey="slot" stroke="hsl(var(--foreground))" />
+                        <YAxis allowDecimals={false} stroke="hsl(var(--foreground))" />
+                        <Tooltip
+                            formatter={(value) => [value, 'Hypos']}
+                            contentStyle={{
+                                background: 'hsla(var(--card) / 0.75)',
+                                backdropFilter: 'blur(12px)',
+                                borderColor: 'hsla(var(--border) / 0.2)'
+                            }}
+                        />
+                        <Bar dataKey="count" fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <div className="flex items-center justify-center h-full">
+                        <p className="text-muted-foreground">No hypo events in the selected time range.</p>
+                    </div>
+                )}
+            </div>
+            </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
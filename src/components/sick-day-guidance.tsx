@@ -0,0 +1,44 @@
+"use client";
+
+import { format, formatDistanceToNow, isPast } from 'date-fns';
+import { useApp } from '@/context/app-context';
+import { KETONE_SEVERITY, formatKetones, ketoneSeverity } from '@/lib/ketones';
+import { getSickDayChecks, getSickDayGuidance } from '@/lib/sick-day';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Thermometer } from 'lucide-react';
+
+const CHECK_LABELS = { glucose: 'Glucose check', ketones: 'Ketone check' };
+
+// Dashboard panel shown while sick-day mode is on.
+export function SickDayGuidance() {
+  const { activeSickDay, glucoseLogs, ketoneReadings, glucoseUnit } = useApp();
+  if (!activeSickDay) return null;
+
+  const checks = getSickDayChecks(activeSickDay, glucoseLogs, ketoneReadings);
+  const latestKetones = ketoneReadings[0];
+  const severity = latestKetones ? ketoneSeverity(latestKetones) : null;
+
+  return (
+    <Alert variant="destructive" className="bg-glass">
+      <Thermometer className="h-4 w-4" />
+      <AlertTitle>Sick-day mode since {format(new Date(activeSickDay.startedAt), 'PPp')}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="list-disc pl-4 space-y-1">
+          {getSickDayGuidance(glucoseUnit).map(line => <li key={line}>{line}</li>)}
+        </ul>
+        <div className="flex flex-col gap-1 md:flex-row md:gap-6 font-medium">
+          {checks.map(check => (
+            <span key={check.kind}>
+              {CHECK_LABELS[check.kind]}: {isPast(check.dueAt) ? 'due now' : `in ${formatDistanceToNow(check.dueAt)}`}
+            </span>
+          ))}
+        </div>
+        {latestKetones && severity && (
+          <p>
+            Latest ketones: {formatKetones(latestKetones)} — {KETONE_SEVERITY[severity].label}. {KETONE_SEVERITY[severity].advice}
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState, type KeyboardEvent } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  maxTags?: number;
+}
+
+// Enter or comma turns the typed text into a tag; Backspace on an empty input removes the last one.
+export function TagInput({ value, onChange, suggestions = [], maxTags = 10 }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const hasTag = (name: string) => value.some(tag => tag.toLowerCase() === name.toLowerCase());
+
+  const addTag = (raw: string) => {
+    const name = raw.trim().replace(/\s+/g, ' ');
+    if (name && !hasTag(name) && value.length < maxTags) onChange([...value, name]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const matches = suggestions
+    .filter(name => !hasTag(name) && name.toLowerCase().includes(draft.trim().toLowerCase()))
+    .slice(0, 6);
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button type="button" onClick={() => onChange(value.filter(t => t !== tag))} aria-label={`Remove ${tag}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        maxLength={30}
+        disabled={value.length >= maxTags}
+        placeholder={value.length >= maxTags ? `Up to ${maxTags} tags` : 'Add a tag and press Enter'}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTag(draft)}
+      />
+      {matches.length > 0 && value.length < maxTags && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map(name => (
+            <Badge key={name} variant="outline" className="cursor-pointer" onMouseDown={(e) => { e.preventDefault(); addTag(name); }}>
+              + {name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
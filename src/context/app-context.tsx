@@ -3,28 +3,73 @@
 
 import type { ReactNode } from 'react';
 import { createContext, useContext, useState, useMemo, useCallback, useEffect } from 'react';
-import type { UserProfile, WeightEntry, GlucoseLog, MealType, AuthState, AppUser } from '@/lib/types';
+import type { UserProfile, WeightEntry, GlucoseLog, Activity, HbA1cResult, KetoneReading, SickDayPeriod, BloodPressureReading, HypoEvent, GlucoseUnit, Insulin, MealType, AuthState, AppUser, LoginResult, SharedAccount, AccessRole } from '@/lib/types';
 import { formatISO } from 'date-fns';
 import * as db from '@/app/db-actions';
+import { DEFAULT_GLUCOSE_UNIT } from '@/lib/glucose-units';
+import { getActiveSickDay } from '@/lib/sick-day';
+import { DEFAULT_HYPO_THRESHOLD } from '@/lib/hypo';
 
 interface AppContextType {
   authState: AuthState;
   user: AppUser | null;
   profile: UserProfile | null;
+  // The signed-in user's display unit, also used for shared and patient records.
+  glucoseUnit: GlucoseUnit;
   weightHistory: WeightEntry[];
   glucoseLogs: GlucoseLog[];
+  activities: Activity[];
+  hba1cResults: HbA1cResult[];
+  ketoneReadings: KetoneReading[];
+  sickDayPeriods: SickDayPeriod[];
+  bloodPressureReadings: BloodPressureReading[];
+  hypoEvents: HypoEvent[];
+  // The subject's hypo threshold in g/L; readings below it are hypos.
+  hypoThreshold: number;
+  // The subject's open sick-day period, if sick-day mode is on.
+  activeSickDay: SickDayPeriod | null;
+  // Insulin catalog of the subject, archived products included so old doses keep their names.
+  insulins: Insulin[];
+  sharedWithMe: SharedAccount[];
+  // Owner of the records being shown: null for the user's own, else a shared account.
+  subject: SharedAccount | null;
+  accessRole: AccessRole;
+  selectSubject: (ownerId: string | null) => Promise<void>;
+  refreshSharedWithMe: () => Promise<void>;
   signup: (email: string, password: string, name: string) => Promise<void>;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<void>;
   logout: () => Promise<void>;
+  refreshUser: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
+  refreshInsulins: () => Promise<void>;
   updateProfile: (profile: Partial<Omit<UserProfile, 'id' | 'email'>>) => Promise<void>;
   addWeightEntry: (weight: number) => Promise<void>;
   updateWeightEntry: (entry: WeightEntry) => Promise<void>;
   deleteWeightEntry: (id: string) => Promise<void>;
   deleteMultipleWeightEntries: (ids: string[]) => Promise<void>;
-  addGlucoseLog: (log: Omit<GlucoseLog, 'id' | 'timestamp'> & { timestamp?: string }) => Promise<void>;
-  updateGlucoseLog: (log: GlucoseLog) => Promise<void>;
+  addGlucoseLog: (log: Omit<GlucoseLog, 'id' | 'timestamp'> & { timestamp?: string }) => Promise<GlucoseLog>;
+  updateGlucoseLog: (log: GlucoseLog) => Promise<GlucoseLog>;
   deleteGlucoseLog: (id: string) => Promise<void>;
   deleteMultipleGlucoseLogs: (ids: string[]) => Promise<void>;
+  restoreGlucoseLogs: (ids: string[]) => Promise<void>;
+  restoreWeightEntries: (ids: string[]) => Promise<void>;
+  loadDemoData: () => Promise<void>;
+  addActivity: (activity: Omit<Activity, 'id'>) => Promise<void>;
+  updateActivity: (activity: Activity) => Promise<void>;
+  deleteActivity: (id: string) => Promise<void>;
+  addHbA1cResult: (result: Omit<HbA1cResult, 'id'>) => Promise<void>;
+  updateHbA1cResult: (result: HbA1cResult) => Promise<void>;
+  deleteHbA1cResult: (id: string) => Promise<void>;
+  addKetoneReading: (reading: Omit<KetoneReading, 'id'>) => Promise<void>;
+  deleteKetoneReading: (id: string) => Promise<void>;
+  setSickDayMode: (on: boolean) => Promise<void>;
+  addBloodPressureReading: (reading: Omit<BloodPressureReading, 'id'>) => Promise<void>;
+  updateBloodPressureReading: (reading: BloodPressureReading) => Promise<void>;
+  deleteBloodPressureReading: (id: string) => Promise<void>;
+  recordHypoEvent: (event: Pick<HypoEvent, 'logId' | 'symptoms' | 'treatment' | 'treatmentCarbs'>) => Promise<void>;
+  updateHypoEvent: (event: Pick<HypoEvent, 'id' | 'symptoms' | 'treatment' | 'treatmentCarbs'>) => Promise<void>;
+  deleteHypoEvent: (id: string) => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -35,6 +80,20 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [weightHistory, setWeightHistory] = useState<WeightEntry[]>([]);
   const [glucoseLogs, setGlucoseLogs] = useState<GlucoseLog[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [hba1cResults, setHbA1cResults] = useState<HbA1cResult[]>([]);
+  const [ketoneReadings, setKetoneReadings] = useState<KetoneReading[]>([]);
+  const [sickDayPeriods, setSickDayPeriods] = useState<SickDayPeriod[]>([]);
+  const [bloodPressureReadings, setBloodPressureReadings] = useState<BloodPressureReading[]>([]);
+  const [hypoEvents, setHypoEvents] = useState<HypoEvent[]>([]);
+  const [insulins, setInsulins] = useState<Insulin[]>([]);
+  const [sharedWithMe, setSharedWithMe] = useState<SharedAccount[]>([]);
+  const [subject, setSubject] = useState<SharedAccount | null>(null);
+  const subjectId = subject?.ownerId;
+  const accessRole: AccessRole = subject?.role ?? 'owner';
+  const glucoseUnit = profile?.glucoseUnit ?? DEFAULT_GLUCOSE_UNIT;
+  const activeSickDay = getActiveSickDay(sickDayPeriods);
+  const hypoThreshold = (subject ? subject.hypoThreshold : profile?.hypoThreshold) ?? DEFAULT_HYPO_THRESHOLD;
 
   const logout = useCallback(async () => {
     try {
@@ -47,6 +106,15 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       setProfile(null);
       setWeightHistory([]);
       setGlucoseLogs([]);
+      setActivities([]);
+      setHbA1cResults([]);
+      setKetoneReadings([]);
+      setSickDayPeriods([]);
+      setBloodPressureReadings([]);
+      setHypoEvents([]);
+      setInsulins([]);
+      setSharedWithMe([]);
+      setSubject(null);
       setAuthState('loggedOut');
     }
   }, []);
@@ -54,16 +122,33 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const loadInitialData = useCallback(async (appUser: AppUser) => {
     setUser(appUser);
     try {
-      const [userProfile, userWeightHistory, userGlucoseLogs] = await Promise.all([
-        db.getUserProfile(appUser.id),
-        db.getWeightHistory(appUser.id),
-        db.getGlucoseLogs(appUser.id),
+      const [userProfile, userWeightHistory, userGlucoseLogs, userActivities, userHbA1cResults, userKetoneReadings, userSickDayPeriods, userBloodPressureReadings, userHypoEvents, userInsulins, userSharedWithMe] = await Promise.all([
+        db.getUserProfile(),
+        db.getWeightHistory(),
+        db.getGlucoseLogs(),
+        db.getActivities(),
+        db.getHbA1cResults(),
+        db.getKetoneReadings(),
+        db.getSickDayPeriods(),
+        db.getBloodPressureReadings(),
+        db.getHypoEvents(),
+        db.getInsulins(),
+        db.getSharedWithMe(),
       ]);
 
       if (userProfile) {
         setProfile(userProfile);
         setWeightHistory(userWeightHistory);
         setGlucoseLogs(userGlucoseLogs);
+        setActivities(userActivities);
+        setHbA1cResults(userHbA1cResults);
+        setKetoneReadings(userKetoneReadings);
+        setSickDayPeriods(userSickDayPeriods);
+        setBloodPressureReadings(userBloodPressureReadings);
+        setHypoEvents(userHypoEvents);
+        setInsulins(userInsulins);
+        setSharedWithMe(userSharedWithMe);
+        setSubject(null);
         setAuthState('loggedIn');
       } else {
         await logout();
@@ -102,13 +187,76 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
 
   const login = async (email: string, password: string) => {
     setAuthState('loading');
-    const loggedInUser = await db.login(email, password);
-    await loadInitialData(loggedInUser);
+    const result = await db.login(email, password);
+    if (result.status === 'success') {
+      await loadInitialData(result.user);
+    } else {
+      setAuthState('loggedOut');
+    }
+    return result;
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    const verifiedUser = await db.verifyTwoFactorLogin(code);
+    setAuthState('loading');
+    await loadInitialData(verifiedUser);
+  };
+
+  const selectSubject = async (ownerId: string | null) => {
+    const nextSubject = ownerId ? sharedWithMe.find(account => account.ownerId === ownerId) : null;
+    if (nextSubject === undefined) throw new Error("This account is no longer shared with you.");
+    const [subjectWeightHistory, subjectGlucoseLogs, subjectActivities, subjectHbA1cResults, subjectKetoneReadings, subjectSickDayPeriods, subjectBloodPressureReadings, subjectHypoEvents, subjectInsulins] = await Promise.all([
+      db.getWeightHistory(nextSubject?.ownerId),
+      db.getGlucoseLogs(nextSubject?.ownerId),
+      db.getActivities(nextSubject?.ownerId),
+      db.getHbA1cResults(nextSubject?.ownerId),
+      db.getKetoneReadings(nextSubject?.ownerId),
+      db.getSickDayPeriods(nextSubject?.ownerId),
+      db.getBloodPressureReadings(nextSubject?.ownerId),
+      db.getHypoEvents(nextSubject?.ownerId),
+      db.getInsulins(nextSubject?.ownerId),
+    ]);
+    setSubject(nextSubject);
+    setWeightHistory(subjectWeightHistory);
+    setGlucoseLogs(subjectGlucoseLogs);
+    setActivities(subjectActivities);
+    setHbA1cResults(subjectHbA1cResults);
+    setKetoneReadings(subjectKetoneReadings);
+    setSickDayPeriods(subjectSickDayPeriods);
+    setBloodPressureReadings(subjectBloodPressureReadings);
+    setHypoEvents(subjectHypoEvents);
+    setInsulins(subjectInsulins);
+  };
+
+  const refreshSharedWithMe = async () => {
+    const accounts = await db.getSharedWithMe();
+    setSharedWithMe(accounts);
+    if (subject && !accounts.some(account => account.ownerId === subject.ownerId)) {
+      await selectSubject(null);
+    }
+  };
+
+  const refreshProfile = async () => {
+    const userProfile = await db.getUserProfile();
+    if (userProfile) {
+      setProfile(userProfile);
+    }
+  };
+
+  const refreshInsulins = async () => {
+    setInsulins(await db.getInsulins(subjectId));
+  };
+
+  const refreshUser = async () => {
+    const sessionUser = await db.checkSession();
+    if (sessionUser) {
+      setUser(sessionUser);
+    }
   };
 
   const updateProfile = async (newProfileData: Partial<UserProfile>) => {
     if (!user) throw new Error("User not authenticated.");
-    const updatedProfile = await db.updateUserProfile(user.id, newProfileData);
+    const updatedProfile = await db.updateUserProfile(newProfileData);
     if(updatedProfile) {
         setProfile(updatedProfile);
     }
@@ -117,25 +265,25 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const addWeightEntry = async (weight: number) => {
     if (!user) throw new Error("User not authenticated.");
     const newEntry: Omit<WeightEntry, 'id'> = { weight, date: formatISO(new Date()) };
-    const entry = await db.addWeightEntry(user.id, newEntry);
+    const entry = await db.addWeightEntry(newEntry, subjectId);
     setWeightHistory(prev => [entry, ...prev].sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
   };
 
   const updateWeightEntry = async (updatedEntry: WeightEntry) => {
     if (!user) throw new Error("User not authenticated.");
-    const entry = await db.updateWeightEntry(updatedEntry);
+    const entry = await db.updateWeightEntry(updatedEntry, subjectId);
     setWeightHistory(prev => prev.map(e => e.id === entry.id ? entry : e).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
   };
 
   const deleteWeightEntry = async (id: string) => {
     if (!user) throw new Error("User not authenticated.");
-    await db.deleteWeightEntry(id);
+    await db.deleteWeightEntry(id, subjectId);
     setWeightHistory(prev => prev.filter(entry => entry.id !== id));
   };
 
   const deleteMultipleWeightEntries = async (ids: string[]) => {
     if (!user) throw new Error("User not authenticated.");
-    await db.deleteMultipleWeightEntries(ids);
+    await db.deleteMultipleWeightEntries(ids, subjectId);
     const idSet = new Set(ids);
     setWeightHistory(prev => prev.filter(entry => !idSet.has(entry.id)));
   };
@@ -146,39 +294,183 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       ...log,
       timestamp: log.timestamp || formatISO(new Date()),
     };
-    const newLog = await db.addGlucoseLog(user.id, newLogData);
+    const newLog = await db.addGlucoseLog(newLogData, subjectId);
     
     setGlucoseLogs(prev => [newLog, ...prev].sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
+    // The new reading may have closed an open hypo recheck.
+    if (hypoEvents.some(event => event.recheckLogId === null)) {
+      setHypoEvents(await db.getHypoEvents(subjectId));
+    }
+    return newLog;
   };
   
   const updateGlucoseLog = async (updatedLog: GlucoseLog) => {
     if (!user) throw new Error("User not authenticated.");
-    const newLog = await db.updateGlucoseLog(updatedLog);
+    const newLog = await db.updateGlucoseLog(updatedLog, subjectId);
     setGlucoseLogs(prev => prev.map(log => log.id === newLog.id ? newLog : log).sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
+    if (hypoEvents.some(event => event.logId === newLog.id || event.recheckLogId === newLog.id)) {
+      setHypoEvents(await db.getHypoEvents(subjectId));
+    }
+    return newLog;
   };
   
   const deleteGlucoseLog = async (id: string) => {
     if (!user) throw new Error("User not authenticated.");
-    await db.deleteGlucoseLog(id);
+    await db.deleteGlucoseLog(id, subjectId);
     setGlucoseLogs(prev => prev.filter(log => log.id !== id));
+    if (hypoEvents.some(event => event.logId === id || event.recheckLogId === id)) {
+      setHypoEvents(await db.getHypoEvents(subjectId));
+    }
   };
 
   const deleteMultipleGlucoseLogs = async (ids: string[]) => {
     if (!user) throw new Error("User not authenticated.");
-    await db.deleteMultipleGlucoseLogs(ids);
+    await db.deleteMultipleGlucoseLogs(ids, subjectId);
     const idSet = new Set(ids);
     setGlucoseLogs(prev => prev.filter(log => !idSet.has(log.id)));
+    if (hypoEvents.some(event => idSet.has(event.logId) || (event.recheckLogId !== null && idSet.has(event.recheckLogId)))) {
+      setHypoEvents(await db.getHypoEvents(subjectId));
+    }
+  };
+
+  const restoreGlucoseLogs = async (ids: string[]) => {
+    if (!user) throw new Error("User not authenticated.");
+    const restored = await db.restoreGlucoseLogs(ids, subjectId);
+    setGlucoseLogs(prev => [...restored, ...prev].sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
+    // Hypo events of the restored readings become visible again.
+    setHypoEvents(await db.getHypoEvents(subjectId));
+  };
+
+  const restoreWeightEntries = async (ids: string[]) => {
+    if (!user) throw new Error("User not authenticated.");
+    const restored = await db.restoreWeightEntries(ids, subjectId);
+    setWeightHistory(prev => [...restored, ...prev].sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+  };
+
+  const loadDemoData = async () => {
+    if (!user) throw new Error("User not authenticated.");
+    await db.loadDemoData();
+    await loadInitialData(user);
+  };
+
+  const addActivity = async (activity: Omit<Activity, 'id'>) => {
+    if (!user) throw new Error("User not authenticated.");
+    const newActivity = await db.addActivity(activity, subjectId);
+    setActivities(prev => [newActivity, ...prev].sort((a,b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()));
+  };
+
+  const updateActivity = async (updatedActivity: Activity) => {
+    if (!user) throw new Error("User not authenticated.");
+    const activity = await db.updateActivity(updatedActivity, subjectId);
+    setActivities(prev => prev.map(a => a.id === activity.id ? activity : a).sort((a,b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()));
+  };
+
+  const deleteActivity = async (id: string) => {
+    if (!user) throw new Error("User not authenticated.");
+    await db.deleteActivity(id, subjectId);
+    setActivities(prev => prev.filter(activity => activity.id !== id));
+  };
+
+  const addHbA1cResult = async (result: Omit<HbA1cResult, 'id'>) => {
+    if (!user) throw new Error("User not authenticated.");
+    const newResult = await db.addHbA1cResult(result, subjectId);
+    setHbA1cResults(prev => [newResult, ...prev].sort((a,b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime()));
+  };
+
+  const updateHbA1cResult = async (updatedResult: HbA1cResult) => {
+    if (!user) throw new Error("User not authenticated.");
+    const result = await db.updateHbA1cResult(updatedResult, subjectId);
+    setHbA1cResults(prev => prev.map(r => r.id === result.id ? result : r).sort((a,b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime()));
+  };
+
+  const deleteHbA1cResult = async (id: string) => {
+    if (!user) throw new Error("User not authenticated.");
+    await db.deleteHbA1cResult(id, subjectId);
+    setHbA1cResults(prev => prev.filter(result => result.id !== id));
+  };
+
+  const addKetoneReading = async (reading: Omit<KetoneReading, 'id'>) => {
+    if (!user) throw new Error("User not authenticated.");
+    const newReading = await db.addKetoneReading(reading, subjectId);
+    setKetoneReadings(prev => [newReading, ...prev].sort((a,b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime()));
+  };
+
+  const deleteKetoneReading = async (id: string) => {
+    if (!user) throw new Error("User not authenticated.");
+    await db.deleteKetoneReading(id, subjectId);
+    setKetoneReadings(prev => prev.filter(reading => reading.id !== id));
+  };
+
+  const setSickDayMode = async (on: boolean) => {
+    if (!user) throw new Error("User not authenticated.");
+    const period = on ? await db.startSickDay(subjectId) : await db.endSickDay(subjectId);
+    setSickDayPeriods(prev => [period, ...prev.filter(p => p.id !== period.id)].sort((a,b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()));
+  };
+
+  const addBloodPressureReading = async (reading: Omit<BloodPressureReading, 'id'>) => {
+    if (!user) throw new Error("User not authenticated.");
+    const newReading = await db.addBloodPressureReading(reading, subjectId);
+    setBloodPressureReadings(prev => [newReading, ...prev].sort((a,b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime()));
+  };
+
+  const updateBloodPressureReading = async (updatedReading: BloodPressureReading) => {
+    if (!user) throw new Error("User not authenticated.");
+    const reading = await db.updateBloodPressureReading(updatedReading, subjectId);
+    setBloodPressureReadings(prev => prev.map(r => r.id === reading.id ? reading : r).sort((a,b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime()));
+  };
+
+  const deleteBloodPressureReading = async (id: string) => {
+    if (!user) throw new Error("User not authenticated.");
+    await db.deleteBloodPressureReading(id, subjectId);
+    setBloodPressureReadings(prev => prev.filter(reading => reading.id !== id));
+  };
+
+  const recordHypoEvent = async (event: Pick<HypoEvent, 'logId' | 'symptoms' | 'treatment' | 'treatmentCarbs'>) => {
+    if (!user) throw new Error("User not authenticated.");
+    const newEvent = await db.recordHypoEvent(event, subjectId);
+    setHypoEvents(prev => [newEvent, ...prev].sort((a,b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime()));
+  };
+
+  const updateHypoEvent = async (updatedEvent: Pick<HypoEvent, 'id' | 'symptoms' | 'treatment' | 'treatmentCarbs'>) => {
+    if (!user) throw new Error("User not authenticated.");
+    const event = await db.updateHypoEvent(updatedEvent, subjectId);
+    setHypoEvents(prev => prev.map(e => e.id === event.id ? event : e));
+  };
+
+  const deleteHypoEvent = async (id: string) => {
+    if (!user) throw new Error("User not authenticated.");
+    await db.deleteHypoEvent(id, subjectId);
+    setHypoEvents(prev => prev.filter(event => event.id !== id));
   };
 
   const contextValue = useMemo(() => ({
     authState,
     user,
     profile,
+    glucoseUnit,
     weightHistory,
     glucoseLogs,
+    activities,
+    hba1cResults,
+    ketoneReadings,
+    sickDayPeriods,
+    bloodPressureReadings,
+    hypoEvents,
+    hypoThreshold,
+    activeSickDay,
+    insulins,
+    sharedWithMe,
+    subject,
+    accessRole,
+    selectSubject,
+    refreshSharedWithMe,
     signup,
     login,
+    verifyTwoFactor,
     logout,
+    refreshUser,
+    refreshProfile,
+    refreshInsulins,
     updateProfile,
     addWeightEntry,
     updateWeightEntry,
@@ -188,8 +480,26 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     updateGlucoseLog,
     deleteGlucoseLog,
     deleteMultipleGlucoseLogs,
+    restoreGlucoseLogs,
+    restoreWeightEntries,
+    loadDemoData,
+    addActivity,
+    updateActivity,
+    deleteActivity,
+    addHbA1cResult,
+    updateHbA1cResult,
+    deleteHbA1cResult,
+    addKetoneReading,
+    deleteKetoneReading,
+    setSickDayMode,
+    addBloodPressureReading,
+    updateBloodPressureReading,
+    deleteBloodPressureReading,
+    recordHypoEvent,
+    updateHypoEvent,
+    deleteHypoEvent,
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }), [profile, weightHistory, glucoseLogs, authState, user, logout, loadInitialData]);
+  }), [profile, weightHistory, glucoseLogs, activities, hba1cResults, ketoneReadings, sickDayPeriods, bloodPressureReadings, hypoEvents, insulins, sharedWithMe, subject, authState, user, logout, loadInitialData]);
 
   return (
     <AppContext.Provider value={contextValue}>
@@ -0,0 +1,22 @@
+import type { Activity, ActivityIntensity, ActivityType } from './types';
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  walking: 'Walking',
+  running: 'Running',
+  cycling: 'Cycling',
+  swimming: 'Swimming',
+  strength: 'Strength training',
+  sports: 'Team sports',
+  other: 'Other',
+};
+
+export const ACTIVITY_INTENSITY_LABELS: Record<ActivityIntensity, string> = {
+  light: 'Light',
+  moderate: 'Moderate',
+  vigorous: 'Vigorous',
+};
+
+// "Running · 45 min · Vigorous"
+export function formatActivity(activity: Pick<Activity, 'type' | 'durationMinutes' | 'intensity'>): string {
+  return `${ACTIVITY_TYPE_LABELS[activity.type]} · ${activity.durationMinutes} min · ${ACTIVITY_INTENSITY_LABELS[activity.intensity]}`;
+}
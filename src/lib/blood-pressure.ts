@@ -0,0 +1,38 @@
+import type { BloodPressureArm, BloodPressureReading } from './types';
+
+export const BLOOD_PRESSURE_ARM_LABELS: Record<BloodPressureArm, string> = {
+  left: 'Left arm',
+  right: 'Right arm',
+};
+
+// ADA target for most adults with diabetes: below 130/80 mmHg.
+export const BLOOD_PRESSURE_TARGET = { systolic: 130, diastolic: 80 };
+
+export function isAtTarget(reading: Pick<BloodPressureReading, 'systolic' | 'diastolic'>): boolean {
+  return reading.systolic < BLOOD_PRESSURE_TARGET.systolic && reading.diastolic < BLOOD_PRESSURE_TARGET.diastolic;
+}
+
+export interface BloodPressureSummary {
+  count: number;
+  systolic: number | null; // mean mmHg
+  diastolic: number | null; // mean mmHg
+  pulse: number | null; // mean bpm over readings that recorded it
+  atTarget: number | null; // share of readings below target, 0-1
+}
+
+export function summarizeBloodPressure(readings: BloodPressureReading[]): BloodPressureSummary {
+  if (readings.length === 0) return { count: 0, systolic: null, diastolic: null, pulse: null, atTarget: null };
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  return {
+    count: readings.length,
+    systolic: mean(readings.map(reading => reading.systolic)),
+    diastolic: mean(readings.map(reading => reading.diastolic)),
+    pulse: mean(readings.flatMap(reading => reading.pulse !== null ? [reading.pulse] : [])),
+    atTarget: readings.filter(isAtTarget).length / readings.length,
+  };
+}
+
+// "128/79 mmHg"
+export function formatBloodPressure(reading: Pick<BloodPressureReading, 'systolic' | 'diastolic'>): string {
+  return `${Math.round(reading.systolic)}/${Math.round(reading.diastolic)} mmHg`;
+}
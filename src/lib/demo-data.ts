@@ -0,0 +1,224 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import type { VercelPgDatabase } from 'drizzle-orm/vercel-postgres';
+import * as schema from './schema';
+import { createId } from './id';
+import { DEFAULT_TREATMENT_CARBS, HYPO_RECHECK_MINUTES, HYPO_SYMPTOMS } from './hypo';
+import type { MealType } from './types';
+
+// A believable diary for demos and for reviewing reports and reminders:
+// three meals a day with later, larger weekend breakfasts, the dawn
+// phenomenon (higher readings before breakfast), carb-counted rapid insulin
+// with corrections, a daily basal dose, occasional treated hypos with their
+// recheck, and a weekly weigh-in. The same seed always yields the same values;
+// only the row ids and the anchoring to today differ between runs.
+
+export const DEMO_SEED = 20240601;
+export const DEMO_DAYS = 90;
+export const MAX_DEMO_DAYS = 365;
+
+const CARBS_PER_UNIT = 10; // g of carbs covered by one unit of rapid insulin
+const CORRECTION_TARGET = 1.2; // g/L
+const CORRECTION_PER_UNIT = 0.4; // g/L lowered by one unit of rapid insulin
+const BASAL_UNITS = 18;
+const HYPO_CHANCE = 0.04; // per lunch, snack or dinner reading
+const NIGHT_HYPO_CHANCE = 0.02; // per night
+const SKIPPED_READING_CHANCE = 0.08;
+const START_WEIGHT = 82; // kg
+const WEIGHT_TREND_PER_DAY = -0.02; // kg
+
+type Random = ReturnType<typeof createRandom>;
+
+// mulberry32: small, fast and good enough for fake data.
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    chance: (probability: number) => next() < probability,
+    // Box-Muller transform.
+    normal: (mean: number, sd: number) => mean + sd * Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next()),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+  };
+}
+
+interface MealPattern {
+  mealType: MealType;
+  hour: number; // usual time on weekdays, local time
+  weekendDelayHours: number;
+  glycemia: [number, number]; // mean and standard deviation before the meal, g/L
+  carbs: [number, number]; // mean and standard deviation, g
+  chance: number; // share of days with this meal
+  descriptions: string[];
+}
+
+const MEAL_PATTERNS: MealPattern[] = [
+  {
+    mealType: 'Breakfast', hour: 7.25, weekendDelayHours: 1.5, glycemia: [1.35, 0.18], carbs: [45, 10], chance: 0.92,
+    descriptions: ['Oatmeal with berries', 'Toast and eggs', 'Yogurt and granola', 'Whole-grain cereal', 'Pancakes'],
+  },
+  {
+    mealType: 'Lunch', hour: 12.5, weekendDelayHours: 0.5, glycemia: [1.1, 0.22], carbs: [65, 15], chance: 1,
+    descriptions: ['Chicken salad sandwich', 'Pasta with vegetables', 'Rice bowl', 'Soup and bread', 'Sushi'],
+  },
+  {
+    mealType: 'Snack', hour: 16, weekendDelayHours: 0, glycemia: [1.45, 0.3], carbs: [20, 6], chance: 0.35,
+    descriptions: ['Apple', 'Crackers and cheese', 'Banana', 'Handful of nuts and raisins'],
+  },
+  {
+    mealType: 'Dinner', hour: 19.75, weekendDelayHours: 0.5, glycemia: [1.2, 0.25], carbs: [75, 18], chance: 1,
+    descriptions: ['Salmon with potatoes', 'Stir-fry with rice', 'Pizza', 'Chili with cornbread', 'Roast chicken and vegetables'],
+  },
+];
+
+const HYPO_TREATMENTS = ['Glucose tablets', 'Orange juice', 'Regular soda', 'Jelly beans'];
+
+export interface DemoData {
+  insulins: (typeof schema.insulins.$inferInsert)[];
+  glucoseLogs: (typeof schema.glucoseLogs.$inferInsert)[];
+  insulinDoses: (typeof schema.insulinDoses.$inferInsert)[];
+  weightHistory: (typeof schema.weightHistory.$inferInsert)[];
+  hypoEvents: (typeof schema.hypoEvents.$inferInsert)[];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function roundTo(value: number, step: number): number {
+  return Number((Math.round(value / step) * step).toFixed(2));
+}
+
+function at(day: Date, hour: number, random: Random, jitterMinutes: number): Date {
+  const time = new Date(day);
+  time.setMinutes(Math.round(hour * 60 + random.normal(0, jitterMinutes)));
+  return time;
+}
+
+export function generateDemoData(userId: string, { seed = DEMO_SEED, days = DEMO_DAYS, now = new Date() } = {}): DemoData {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DEMO_DAYS) {
+    throw new Error(`Demo data covers 1 to ${MAX_DEMO_DAYS} days.`);
+  }
+  const random = createRandom(seed);
+  const data: DemoData = { insulins: [], glucoseLogs: [], insulinDoses: [], weightHistory: [], hypoEvents: [] };
+
+  const rapid = { id: createId('insulin'), userId, name: 'NovoRapid', type: 'rapid' as const, concentration: 100, durationHours: 4 };
+  const basal = { id: createId('insulin'), userId, name: 'Lantus', type: 'long' as const, concentration: 100, durationHours: 24 };
+  data.insulins.push(rapid, basal);
+
+  const addLog = (log: Omit<typeof schema.glucoseLogs.$inferInsert, 'id' | 'userId'>, doses: [string, number][] = []) => {
+    const id = createId('gl');
+    data.glucoseLogs.push({ id, userId, ...log });
+    for (const [insulinId, units] of doses) {
+      if (units > 0) data.insulinDoses.push({ id: createId('dose'), logId: id, insulinId, units });
+    }
+    return id;
+  };
+
+  const addHypo = (logId: string, timestamp: Date) => {
+    const recheckAt = new Date(timestamp.getTime() + (HYPO_RECHECK_MINUTES + Math.round(random.next() * 5)) * 60 * 1000);
+    const recheckLogId = recheckAt <= now
+      ? addLog({ timestamp: recheckAt, mealType: 'Snack', glycemia: roundTo(clamp(random.normal(0.95, 0.1), 0.72, 1.3), 0.01), carbs: null, mealDescription: null, notes: 'Recheck after hypo' })
+      : null;
+    const symptoms = HYPO_SYMPTOMS.filter(symptom => symptom !== 'No symptoms' && random.chance(0.25));
+    data.hypoEvents.push({
+      id: createId('hypo'),
+      userId,
+      logId,
+      symptoms: symptoms.length > 0 ? symptoms : ['No symptoms'],
+      treatment: random.pick(HYPO_TREATMENTS),
+      treatmentCarbs: DEFAULT_TREATMENT_CARBS,
+      recheckDueAt: new Date(timestamp.getTime() + HYPO_RECHECK_MINUTES * 60 * 1000),
+      recheckLogId,
+    });
+  };
+
+  const firstDay = new Date(now);
+  firstDay.setHours(0, 0, 0, 0);
+  firstDay.setDate(firstDay.getDate() - (days - 1));
+
+  for (let index = 0; index < days; index++) {
+    const day = new Date(firstDay);
+    day.setDate(firstDay.getDate() + index);
+    const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+
+    if (random.chance(NIGHT_HYPO_CHANCE)) {
+      const timestamp = at(day, 3, random, 45);
+      if (timestamp <= now) {
+        const logId = addLog({ timestamp, mealType: 'Fasting', glycemia: roundTo(clamp(random.normal(0.6, 0.05), 0.45, 0.68), 0.01), carbs: null, mealDescription: null, notes: 'Woke up low' });
+        addHypo(logId, timestamp);
+      }
+    }
+
+    if (index % 7 === 0) {
+      const date = at(day, 7, random, 10);
+      if (date <= now) {
+        const weight = START_WEIGHT + WEIGHT_TREND_PER_DAY * index + random.normal(0, 0.35);
+        data.weightHistory.push({ id: createId('weight'), userId, date, weight: roundTo(weight, 0.1) });
+      }
+    }
+
+    for (const meal of MEAL_PATTERNS) {
+      if (!random.chance(meal.chance)) continue;
+      const timestamp = at(day, meal.hour + (isWeekend ? meal.weekendDelayHours : 0), random, 30);
+      if (timestamp > now) continue;
+      if (meal.mealType !== 'Breakfast' && random.chance(SKIPPED_READING_CHANCE)) continue;
+
+      const isLow = meal.mealType !== 'Breakfast' && random.chance(HYPO_CHANCE);
+      const glycemia = roundTo(isLow
+        ? clamp(random.normal(0.6, 0.05), 0.45, 0.68)
+        : clamp(random.normal(...meal.glycemia), 0.75, 3.2), 0.01);
+      const carbs = roundTo(clamp(random.normal(...meal.carbs) * (isWeekend && meal.mealType === 'Breakfast' ? 1.2 : 1), 5, 150), 5);
+      const correction = Math.max(0, (glycemia - CORRECTION_TARGET) / CORRECTION_PER_UNIT);
+      // After a hypo the meal dose is cut back by a couple of units.
+      const rapidUnits = roundTo(Math.max(0, carbs / CARBS_PER_UNIT + correction - (isLow ? 2 : 0)), 0.5);
+
+      const doses: [string, number][] = [[rapid.id, meal.mealType === 'Snack' && carbs < 20 ? 0 : rapidUnits]];
+      if (meal.mealType === 'Breakfast') doses.push([basal.id, BASAL_UNITS]);
+      const logId = addLog({
+        timestamp,
+        mealType: meal.mealType,
+        glycemia,
+        carbs,
+        mealDescription: random.pick(meal.descriptions),
+        notes: null,
+      }, doses);
+      if (isLow) addHypo(logId, timestamp);
+    }
+  }
+
+  return data;
+}
+
+// Inserts generated rows for a user. Callers check that the account has no
+// logs or weights yet; insulins already in the catalog under the same name are
+// reused instead of added twice.
+export async function insertDemoData(database: VercelPgDatabase<typeof schema>, userId: string, data: DemoData): Promise<void> {
+  // All or nothing: a partial insert would leave the account non-empty, and
+  // loading demo data again would be refused.
+  await database.transaction(async tx => {
+    const catalog = await tx.query.insulins.findMany({
+      where: and(eq(schema.insulins.userId, userId), isNull(schema.insulins.archivedAt)),
+    });
+    const insulinIds = new Map<string, string>();
+    for (const insulin of data.insulins) {
+      const existing = catalog.find(product => product.name.toLowerCase() === insulin.name.toLowerCase());
+      if (existing) {
+        insulinIds.set(insulin.id, existing.id);
+      } else {
+        await tx.insert(schema.insulins).values(insulin);
+      }
+    }
+    const doses = data.insulinDoses.map(dose => ({ ...dose, insulinId: insulinIds.get(dose.insulinId) ?? dose.insulinId }));
+
+    if (data.glucoseLogs.length > 0) await tx.insert(schema.glucoseLogs).values(data.glucoseLogs);
+    if (doses.length > 0) await tx.insert(schema.insulinDoses).values(doses);
+    if (data.weightHistory.length > 0) await tx.insert(schema.weightHistory).values(data.weightHistory);
+    if (data.hypoEvents.length > 0) await tx.insert(schema.hypoEvents).values(data.hypoEvents);
+  });
+}
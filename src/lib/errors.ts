@@ -0,0 +1,33 @@
+// Errors thrown by the server actions when the caller is not allowed to see or
+// touch a record. Records owned by someone else are reported as `not_found` so
+// that ids belonging to other users cannot be probed.
+
+export type AccessErrorCode = 'unauthenticated' | 'not_found' | 'forbidden';
+
+export class AccessError extends Error {
+  constructor(public readonly code: AccessErrorCode, message: string) {
+    super(message);
+    this.name = 'AccessError';
+  }
+}
+
+export class UnauthenticatedError extends AccessError {
+  constructor(message = 'You must be logged in to do this.') {
+    super('unauthenticated', message);
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+export class NotFoundError extends AccessError {
+  constructor(message = 'The requested record was not found.') {
+    super('not_found', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ForbiddenError extends AccessError {
+  constructor(message = 'You are not allowed to do this.') {
+    super('forbidden', message);
+    this.name = 'ForbiddenError';
+  }
+}
@@ -0,0 +1,21 @@
+import type { GlucoseLog } from './types';
+
+// Consensus target range for time-in-range, 70-180 mg/dL expressed in g/L.
+export const TARGET_RANGE = { low: 0.7, high: 1.8 };
+
+export interface GlucoseSummary {
+  count: number;
+  average: number | null;
+  timeInRange: number | null; // share of readings inside TARGET_RANGE, 0-1
+}
+
+export function summarizeGlucose(logs: Pick<GlucoseLog, 'glycemia'>[]): GlucoseSummary {
+  if (logs.length === 0) return { count: 0, average: null, timeInRange: null };
+  const values = logs.map(log => log.glycemia);
+  const inRange = values.filter(value => value >= TARGET_RANGE.low && value <= TARGET_RANGE.high).length;
+  return {
+    count: values.length,
+    average: values.reduce((a, b) => a + b, 0) / values.length,
+    timeInRange: inRange / values.length,
+  };
+}
@@ -0,0 +1,61 @@
+import type { GlucoseUnit } from './types';
+
+// Glycemia is stored in g/L everywhere (database, server actions, AI flows);
+// this module is the only place that converts it for people.
+
+const MGDL_PER_GL = 100;
+const MGDL_PER_MMOLL = 18.016; // molar mass of glucose, 180.16 g/mol
+
+interface GlucoseUnitSpec {
+  label: string;
+  decimals: number; // display precision
+  step: string; // input step
+  fromGramsPerLitre: (value: number) => number;
+  toGramsPerLitre: (value: number) => number;
+}
+
+export const GLUCOSE_UNITS: Record<GlucoseUnit, GlucoseUnitSpec> = {
+  'g/L': {
+    label: 'g/L',
+    decimals: 2,
+    step: '0.01',
+    fromGramsPerLitre: value => value,
+    toGramsPerLitre: value => value,
+  },
+  'mg/dL': {
+    label: 'mg/dL',
+    decimals: 0,
+    step: '1',
+    fromGramsPerLitre: value => value * MGDL_PER_GL,
+    toGramsPerLitre: value => value / MGDL_PER_GL,
+  },
+  'mmol/L': {
+    label: 'mmol/L',
+    decimals: 1,
+    step: '0.1',
+    fromGramsPerLitre: value => (value * MGDL_PER_GL) / MGDL_PER_MMOLL,
+    toGramsPerLitre: value => (value * MGDL_PER_MMOLL) / MGDL_PER_GL,
+  },
+};
+
+export const DEFAULT_GLUCOSE_UNIT: GlucoseUnit = 'g/L';
+
+// Value in the user's unit, rounded to that unit's display precision.
+export function toDisplayGlucose(gramsPerLitre: number, unit: GlucoseUnit): number {
+  const { decimals, fromGramsPerLitre } = GLUCOSE_UNITS[unit];
+  const factor = 10 ** decimals;
+  return Math.round(fromGramsPerLitre(gramsPerLitre) * factor) / factor;
+}
+
+// Canonical g/L value for something the user typed in their unit.
+export function fromDisplayGlucose(value: number, unit: GlucoseUnit): number {
+  return GLUCOSE_UNITS[unit].toGramsPerLitre(value);
+}
+
+// "1.25 g/L", "125 mg/dL", "6.9 mmol/L"; pass `withUnit: false` for table cells
+// whose header already names the unit.
+export function formatGlucose(gramsPerLitre: number, unit: GlucoseUnit, { withUnit = true } = {}): string {
+  const { decimals, label } = GLUCOSE_UNITS[unit];
+  const value = GLUCOSE_UNITS[unit].fromGramsPerLitre(gramsPerLitre).toFixed(decimals);
+  return withUnit ? `${value} ${label}` : value;
+}
@@ -0,0 +1,51 @@
+import { subDays } from 'date-fns';
+import type { GlucoseLog } from './types';
+
+// HbA1c is stored as an NGSP percentage; IFCC mmol/mol is derived for display.
+// Master equation: IFCC = (NGSP - 2.15) × 10.929.
+
+const IFCC_SLOPE = 10.929;
+const IFCC_OFFSET = 2.15;
+
+// Red blood cells live about three months, so lab HbA1c reflects that window.
+export const ESTIMATE_WINDOW_DAYS = 90;
+// Below this many readings an estimate says more about logging gaps than glucose.
+export const MIN_ESTIMATE_READINGS = 30;
+
+export function percentToMmolMol(percent: number): number {
+  return (percent - IFCC_OFFSET) * IFCC_SLOPE;
+}
+
+export function mmolMolToPercent(mmolMol: number): number {
+  return mmolMol / IFCC_SLOPE + IFCC_OFFSET;
+}
+
+// "7.1 % (54 mmol/mol)"
+export function formatHbA1c(percent: number): string {
+  return `${percent.toFixed(1)} % (${Math.round(percentToMmolMol(percent))} mmol/mol)`;
+}
+
+export interface A1cEstimate {
+  percent: number;
+  readings: number;
+  reliable: boolean; // enough readings in the window
+}
+
+// ADAG estimated A1c from mean glucose over the window ending at `at`:
+// eA1c (%) = (mean mg/dL + 46.7) / 28.7. Glycemia is stored in g/L.
+export function estimateA1c(logs: Pick<GlucoseLog, 'timestamp' | 'glycemia'>[], at: Date): A1cEstimate | null {
+  const from = subDays(at, ESTIMATE_WINDOW_DAYS);
+  const values = logs
+    .filter(log => {
+      const time = new Date(log.timestamp);
+      return time > from && time <= at;
+    })
+    .map(log => log.glycemia);
+  if (values.length === 0) return null;
+  const meanMgDl = (values.reduce((a, b) => a + b, 0) / values.length) * 100;
+  return {
+    percent: (meanMgDl + 46.7) / 28.7,
+    readings: values.length,
+    reliable: values.length >= MIN_ESTIMATE_READINGS,
+  };
+}
@@ -0,0 +1,38 @@
+import type { HypoEvent } from './types';
+
+// Hypoglycemia follows the "rule of 15": take about 15 g of fast-acting carbs,
+// recheck after 15 minutes, and repeat while glycemia stays low.
+
+export const DEFAULT_HYPO_THRESHOLD = 0.7; // g/L, 70 mg/dL
+export const HYPO_THRESHOLD_LIMITS = { min: 0.5, max: 1.0 }; // g/L
+export const HYPO_RECHECK_MINUTES = 15;
+export const DEFAULT_TREATMENT_CARBS = 15; // g
+// A reading taken up to this long after the recheck was due still counts as the recheck.
+export const HYPO_RECHECK_WINDOW_MINUTES = 60;
+
+export const HYPO_SYMPTOMS = [
+  'Shaky',
+  'Sweaty',
+  'Dizzy',
+  'Hungry',
+  'Headache',
+  'Confused',
+  'Palpitations',
+  'Blurred vision',
+  'No symptoms',
+];
+
+export function isHypo(glycemia: number, threshold: number): boolean {
+  return glycemia < threshold;
+}
+
+// Three-hour slots of the day, in the user's local time.
+export const TIME_OF_DAY_SLOTS = ['00–03', '03–06', '06–09', '09–12', '12–15', '15–18', '18–21', '21–24'];
+
+export function countByTimeOfDay(events: Pick<HypoEvent, 'occurredAt'>[]): { slot: string; count: number }[] {
+  const counts = TIME_OF_DAY_SLOTS.map(slot => ({ slot, count: 0 }));
+  for (const event of events) {
+    counts[Math.floor(new Date(event.occurredAt).getHours() / 3)].count++;
+  }
+  return counts;
+}
@@ -0,0 +1,53 @@
+// Row identifiers: a short table prefix followed by a UUIDv7, e.g.
+// `gl_0190b6c2-4a1e-7c3d-9f10-2b7e5d8a6c41`. UUIDv7 starts with a millisecond
+// timestamp, so ids still sort by creation time, and the 74 random bits make
+// collisions between rows created in the same millisecond practically
+// impossible. Uses Web Crypto so it works in both the Node and Edge runtimes.
+
+export type IdPrefix =
+  | 'user' | 'session' | 'gl' | 'weight' | 'share' | 'clinic' | 'reset' | 'verify'
+  | 'rc' | '2fa' | 'sec' | 'audit' | 'mail' | 'insulin' | 'dose' | 'tag' | 'activity' | 'a1c'
+  | 'ketone' | 'sick' | 'bp' | 'hypo';
+
+let lastTimestamp = -1;
+let lastCounter = 0;
+
+// RFC 9562 UUIDv7. Within one millisecond the 12-bit `rand_a` field is used
+// as a counter, so ids generated by this process are strictly increasing.
+export function uuidv7(now = Date.now()): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+
+  let counter: number;
+  if (now === lastTimestamp && lastCounter < 0xfff) {
+    counter = lastCounter + 1;
+  } else {
+    counter = ((bytes[6] & 0x07) << 8) | bytes[7]; // leave headroom for the counter
+  }
+  lastTimestamp = now;
+  lastCounter = counter;
+
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = Math.floor(now / 2 ** (8 * (5 - i))) & 0xff;
+  }
+  bytes[6] = 0x70 | (counter >> 8); // version 7
+  bytes[7] = counter & 0xff;
+  bytes[8] = 0x80 | (bytes[8] & 0x3f); // RFC 4122 variant
+
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function createId(prefix: IdPrefix): string {
+  return `${prefix}_${uuidv7()}`;
+}
+
+export const UUIDV7_ID = /^[a-z0-9]+_[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+// Ids minted before UUIDv7: `<prefix>_<Date.now()>`, optionally `_<index>` for batch inserts.
+export const LEGACY_ID = /^[a-z0-9]+_\d{13}(_\d+)?$/;
+
+// Both formats live side by side in the same text columns; legacy ids are
+// never rewritten because they appear in URLs, audit snapshots and exports.
+// The patterns are also valid Postgres regular expressions (`~`).
+export function isKnownIdFormat(id: string): boolean {
+  return UUIDV7_ID.test(id) || LEGACY_ID.test(id);
+}
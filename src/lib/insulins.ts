@@ -0,0 +1,24 @@
+import type { Insulin, InsulinDose, InsulinType } from './types';
+
+export const INSULIN_TYPE_LABELS: Record<InsulinType, string> = {
+  rapid: 'Rapid-acting',
+  short: 'Short-acting',
+  intermediate: 'Intermediate-acting',
+  long: 'Long-acting',
+  mixed: 'Premixed',
+};
+
+// Product that pre-catalog `dosage` values are migrated to.
+export const DEFAULT_INSULIN: Omit<Insulin, 'id' | 'archived'> = {
+  name: 'Novorapid',
+  type: 'rapid',
+  concentration: 100,
+  durationHours: 4,
+};
+
+// "6 U Novorapid + 12 U Lantus", or an em dash when nothing was injected.
+export function formatDoses(doses: InsulinDose[], insulins: Insulin[]): string {
+  if (doses.length === 0) return '—';
+  const names = new Map(insulins.map(insulin => [insulin.id, insulin.name]));
+  return doses.map(dose => `${dose.units} U ${names.get(dose.insulinId) ?? 'Unknown insulin'}`).join(' + ');
+}
@@ -0,0 +1,50 @@
+import type { KetoneMethod, KetoneReading } from './types';
+
+// Ketones are stored in mmol/L for both methods. Urine strips are read as
+// colour blocks, which map to the mmol/L printed on common strip charts.
+
+export const KETONE_METHOD_LABELS: Record<KetoneMethod, string> = {
+  blood: 'Blood (meter)',
+  urine: 'Urine (strip)',
+};
+
+export const URINE_KETONE_LEVELS: { label: string; value: number }[] = [
+  { label: 'Negative', value: 0 },
+  { label: 'Trace', value: 0.5 },
+  { label: 'Small', value: 1.5 },
+  { label: 'Moderate', value: 4 },
+  { label: 'Large', value: 8 },
+];
+
+export type KetoneSeverity = 'normal' | 'elevated' | 'high' | 'danger';
+
+export const KETONE_SEVERITY: Record<KetoneSeverity, { label: string; advice: string }> = {
+  normal: { label: 'Normal', advice: 'No action needed beyond your usual sick-day checks.' },
+  elevated: { label: 'Elevated', advice: 'Drink water, take correction insulin as agreed with your care team and recheck in 2 hours.' },
+  high: { label: 'High', advice: 'Risk of ketoacidosis. Take extra insulin as per your plan and contact your care team now.' },
+  danger: { label: 'Very high', advice: 'Seek emergency care, especially with vomiting, abdominal pain or fast breathing.' },
+};
+
+// Blood thresholds from the usual sick-day rules (0.6 / 1.5 / 3.0 mmol/L);
+// urine strips lag behind blood ketones, so their bands sit higher.
+export function ketoneSeverity({ method, value }: Pick<KetoneReading, 'method' | 'value'>): KetoneSeverity {
+  if (method === 'blood') {
+    if (value >= 3) return 'danger';
+    if (value >= 1.5) return 'high';
+    if (value >= 0.6) return 'elevated';
+    return 'normal';
+  }
+  if (value >= 8) return 'danger';
+  if (value >= 4) return 'high';
+  if (value >= 0.5) return 'elevated';
+  return 'normal';
+}
+
+// "1.2 mmol/L (blood)" or "Moderate (urine)"
+export function formatKetones({ method, value }: Pick<KetoneReading, 'method' | 'value'>): string {
+  if (method === 'urine') {
+    const level = URINE_KETONE_LEVELS.find(level => level.value === value);
+    return `${level?.label ?? `${value} mmol/L`} (urine)`;
+  }
+  return `${value.toFixed(1)} mmol/L (blood)`;
+}
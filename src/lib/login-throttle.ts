@@ -0,0 +1,66 @@
+// Backoff policy for failed logins. Failures are counted per key (an account
+// or a client IP); each failure past the free allowance doubles the wait
+// before the next attempt, and reaching the lockout threshold blocks the key
+// for a fixed period. Counters are forgotten after a quiet window.
+
+export interface ThrottlePolicy {
+  freeAttempts: number;
+  lockoutThreshold: number;
+  lockoutMs: number;
+  maxBackoffMs: number;
+  resetAfterMs: number;
+}
+
+export interface ThrottleState {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+export const ACCOUNT_THROTTLE_POLICY: ThrottlePolicy = {
+  freeAttempts: 3,
+  lockoutThreshold: 10,
+  lockoutMs: 1000 * 60 * 15, // 15 minutes
+  maxBackoffMs: 1000 * 60 * 5,
+  resetAfterMs: 1000 * 60 * 60, // 1 hour
+};
+
+// Several people can share an address, so the IP limits are looser.
+export const IP_THROTTLE_POLICY: ThrottlePolicy = {
+  freeAttempts: 10,
+  lockoutThreshold: 50,
+  lockoutMs: 1000 * 60 * 30, // 30 minutes
+  maxBackoffMs: 1000 * 60 * 5,
+  resetAfterMs: 1000 * 60 * 60, // 1 hour
+};
+
+export function isThrottled(state: ThrottleState | undefined, now = new Date()): boolean {
+  return !!state?.lockedUntil && state.lockedUntil > now;
+}
+
+export function registerFailure(
+  previous: ThrottleState | undefined,
+  policy: ThrottlePolicy,
+  now = new Date()
+): ThrottleState & { lockedOut: boolean } {
+  const stale = !previous || now.getTime() - previous.lastFailureAt.getTime() > policy.resetAfterMs;
+  const failures = (stale ? 0 : previous.failures) + 1;
+
+  if (failures >= policy.lockoutThreshold) {
+    return {
+      failures,
+      lastFailureAt: now,
+      lockedUntil: new Date(now.getTime() + policy.lockoutMs),
+      lockedOut: true,
+    };
+  }
+
+  const excess = failures - policy.freeAttempts;
+  const backoffMs = excess > 0 ? Math.min(1000 * 2 ** (excess - 1), policy.maxBackoffMs) : 0;
+  return {
+    failures,
+    lastFailureAt: now,
+    lockedUntil: backoffMs > 0 ? new Date(now.getTime() + backoffMs) : null,
+    lockedOut: false,
+  };
+}
@@ -0,0 +1,80 @@
+import 'server-only';
+import { db } from './db';
+import * as schema from './schema';
+import { createId } from './id';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development transport: stores messages in the `mail_outbox` table so flows
+// that send email can be exercised locally through the /outbox page.
+export const outboxTransport: MailTransport = {
+  async send(message) {
+    await db.insert(schema.mailOutbox).values({ id: createId('mail'), ...message });
+  },
+};
+
+// Delivers through the Resend HTTP API.
+function resendTransport(apiKey: string, from: string): MailTransport {
+  return {
+    async send(message) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text }),
+      });
+      if (!response.ok) {
+        throw new Error(`Mail delivery failed (${response.status}): ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// MAIL_TRANSPORT picks the transport: `resend` (with RESEND_API_KEY and
+// MAIL_FROM) or `outbox`, the default outside production. Production has no
+// default, so reset and verification emails are never silently kept in the
+// outbox instead of being delivered.
+function transportFromEnv(): MailTransport {
+  const isProduction = process.env.NODE_ENV === 'production';
+  const name = process.env.MAIL_TRANSPORT || (isProduction ? undefined : 'outbox');
+  if (name === 'resend') {
+    const { RESEND_API_KEY: apiKey, MAIL_FROM: from } = process.env;
+    if (!apiKey || !from) throw new Error('MAIL_TRANSPORT=resend needs RESEND_API_KEY and MAIL_FROM.');
+    return resendTransport(apiKey, from);
+  }
+  if (name === 'outbox' && !isProduction) return outboxTransport;
+  throw new Error(isProduction
+    ? 'No mail transport is configured for production; set MAIL_TRANSPORT=resend.'
+    : `Unknown MAIL_TRANSPORT "${name}".`);
+}
+
+let transport: MailTransport | null = null;
+
+function currentTransport(): MailTransport {
+  transport ??= transportFromEnv();
+  return transport;
+}
+
+// Swap in another transport (SMTP, provider API, ...) at startup.
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export function isOutboxTransport(): boolean {
+  try {
+    return currentTransport() === outboxTransport;
+  } catch {
+    return false;
+  }
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await currentTransport().send(message);
+}
@@ -0,0 +1,43 @@
+import { and, eq, inArray, lte, notExists } from 'drizzle-orm';
+import type { VercelPgDatabase } from 'drizzle-orm/vercel-postgres';
+import * as schema from './schema';
+
+// Cleanup of data whose retention period is over. Purging across all users
+// runs from a scheduled job (`npm run db:purge-expired`), never from requests.
+
+type Database = VercelPgDatabase<typeof schema>;
+
+// Erases accounts whose grace period is over. Health records, sessions and
+// every other user-owned row go with them through ON DELETE CASCADE.
+export async function purgeScheduledAccountDeletions(database: Database, now = new Date()): Promise<number> {
+  const purged = await database.delete(schema.users)
+    .where(lte(schema.users.deletionScheduledAt, now))
+    .returning({ id: schema.users.id });
+  return purged.length;
+}
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// Erases logs and weights that have been in the trash for longer than the
+// retention period, for one user or, from the scheduled job, for everyone.
+export async function purgeExpiredTrash(database: Database, now = new Date(), userId?: string): Promise<number> {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const [purgedLogs, purgedEntries] = await Promise.all([
+    database.delete(schema.glucoseLogs)
+      .where(and(lte(schema.glucoseLogs.deletedAt, cutoff), userId ? eq(schema.glucoseLogs.userId, userId) : undefined))
+      .returning({ userId: schema.glucoseLogs.userId }),
+    database.delete(schema.weightHistory)
+      .where(and(lte(schema.weightHistory.deletedAt, cutoff), userId ? eq(schema.weightHistory.userId, userId) : undefined))
+      .returning({ id: schema.weightHistory.id }),
+  ]);
+
+  // Tags only live as long as some log uses them.
+  const userIds = [...new Set(purgedLogs.map(log => log.userId))];
+  if (userIds.length > 0) {
+    await database.delete(schema.tags).where(and(
+      inArray(schema.tags.userId, userIds),
+      notExists(database.select().from(schema.glucoseLogTags).where(eq(schema.glucoseLogTags.tagId, schema.tags.id))),
+    ));
+  }
+  return purgedLogs.length + purgedEntries.length;
+}
@@ -0,0 +1,10 @@
+export const DEFAULT_AUTHENTICATED_PATH = '/dashboard';
+
+// Only same-origin paths are honoured, so a crafted login link cannot bounce
+// the user to another site after they sign in.
+export function getSafeReturnTo(value: string | null | undefined): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return DEFAULT_AUTHENTICATED_PATH;
+  }
+  return value;
+}
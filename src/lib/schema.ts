@@ -1,15 +1,45 @@
-import { pgTable, text, timestamp, real, pgEnum, primaryKey, varchar } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, text, timestamp, real, integer, jsonb, pgEnum, primaryKey, unique, varchar } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 export const mealTypeEnum = pgEnum('meal_type', ['Breakfast', 'Lunch', 'Dinner', 'Snack', 'Fasting']);
+export const insulinTypeEnum = pgEnum('insulin_type', ['rapid', 'short', 'intermediate', 'long', 'mixed']);
+export const activityTypeEnum = pgEnum('activity_type', ['walking', 'running', 'cycling', 'swimming', 'strength', 'sports', 'other']);
+export const activityIntensityEnum = pgEnum('activity_intensity', ['light', 'moderate', 'vigorous']);
+export const ketoneMethodEnum = pgEnum('ketone_method', ['blood', 'urine']);
+export const bloodPressureArmEnum = pgEnum('blood_pressure_arm', ['left', 'right']);
+export const glucoseUnitEnum = pgEnum('glucose_unit', ['g/L', 'mg/dL', 'mmol/L']);
+export const userRoleEnum = pgEnum('user_role', ['patient', 'clinician']);
+export const clinicLinkStatusEnum = pgEnum('clinic_link_status', ['pending', 'active', 'declined', 'revoked']);
+export const shareRoleEnum = pgEnum('share_role', ['viewer', 'logger']);
+export const securityEventTypeEnum = pgEnum('security_event_type', [
+  'login_succeeded',
+  'login_failed',
+  'account_locked',
+  'two_factor_failed',
+  'two_factor_enabled',
+  'two_factor_disabled',
+  'recovery_code_used',
+  'password_changed',
+  'email_changed',
+]);
+export const auditActionEnum = pgEnum('audit_action', ['create', 'update', 'delete', 'restore']);
+export const auditEntityTypeEnum = pgEnum('audit_entity_type', ['glucose_log', 'weight_entry', 'activity', 'hba1c_result', 'ketone_reading', 'sick_day_period', 'blood_pressure', 'hypo_event', 'profile']);
 
 export const users = pgTable('users', {
   id: text('id').notNull().primaryKey(),
   name: text('name').notNull(),
   email: text('email').notNull().unique(),
+  emailVerifiedAt: timestamp('email_verified_at'),
   passwordHash: text('password_hash').notNull(),
+  role: userRoleEnum('role').notNull().default('patient'),
   birthdate: timestamp('birthdate'),
   height: real('height'), // in cm
+  glucoseUnit: glucoseUnitEnum('glucose_unit').notNull().default('g/L'), // display only; glycemia is stored in g/L
+  hypoThreshold: real('hypo_threshold').notNull().default(0.7), // g/L; readings below it open a hypo event
+  totpSecret: text('totp_secret'), // base32; set during enrollment, active once totpEnabledAt is set
+  totpEnabledAt: timestamp('totp_enabled_at'),
+  totpLastStep: integer('totp_last_step'), // last accepted time step, to reject replayed codes
+  deletionScheduledAt: timestamp('deletion_scheduled_at'), // erased once this passes, unless restored
 });
 
 export const glucoseLogs = pgTable('glucose_logs', {
@@ -18,7 +48,68 @@ export const glucoseLogs = pgTable('glucose_logs', {
   timestamp: timestamp('timestamp').notNull(),
   mealType: mealTypeEnum('meal_type').notNull(),
   glycemia: real('glycemia').notNull(), // in g/L
-  dosage: real('dosage').notNull(), // Novorapide units
+  carbs: real('carbs'), // grams of carbohydrate eaten with the reading, if known
+  mealDescription: text('meal_description'),
+  notes: text('notes'),
+  deletedAt: timestamp('deleted_at'), // in the trash since then; purged after the retention period
+  // Pre-catalog Novorapide units. Moved into `insulin_doses` by
+  // scripts/migrate-insulin-doses.ts, which clears it; no longer written.
+  legacyDosage: real('dosage'),
+});
+
+// A low reading with its symptoms and treatment. The follow-up reading is
+// linked once it is logged, so treatment effectiveness can be reviewed.
+export const hypoEvents = pgTable('hypo_events', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  logId: text('log_id').notNull().unique().references(() => glucoseLogs.id, { onDelete: 'cascade' }),
+  symptoms: text('symptoms').array().notNull().default(sql`'{}'::text[]`),
+  treatment: text('treatment'), // e.g. "3 glucose tablets"
+  treatmentCarbs: real('treatment_carbs'), // grams of fast-acting carbs
+  recheckDueAt: timestamp('recheck_due_at').notNull(),
+  recheckLogId: text('recheck_log_id').references(() => glucoseLogs.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Each user's own tag vocabulary. Tags exist only while a log uses them.
+export const tags = pgTable('tags', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  userName: unique().on(table.userId, table.name),
+}));
+
+export const glucoseLogTags = pgTable('glucose_log_tags', {
+  logId: text('log_id').notNull().references(() => glucoseLogs.id, { onDelete: 'cascade' }),
+  tagId: text('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.logId, table.tagId] }),
+}));
+
+// Each user's own insulin products. Archived products stay referenced by
+// past doses but are no longer offered when logging.
+export const insulins = pgTable('insulins', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  type: insulinTypeEnum('type').notNull(),
+  concentration: integer('concentration').notNull().default(100), // units per mL (U-100, U-200...)
+  durationHours: real('duration_hours'), // duration of action
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  archivedAt: timestamp('archived_at'),
+});
+
+// Injections recorded with a glucose log; one log can hold several.
+export const insulinDoses = pgTable('insulin_doses', {
+  id: text('id').notNull().primaryKey(),
+  logId: text('log_id').notNull().references(() => glucoseLogs.id, { onDelete: 'cascade' }),
+  // NO ACTION, not RESTRICT: deleting a user cascades to both insulins and
+  // logs, so the check must wait for the end of the statement. The app only
+  // archives insulins, so products in use are never deleted.
+  insulinId: text('insulin_id').notNull().references(() => insulins.id),
+  units: real('units').notNull(),
 });
 
 export const weightHistory = pgTable('weight_history', {
@@ -26,6 +117,166 @@ export const weightHistory = pgTable('weight_history', {
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   date: timestamp('date').notNull(),
   weight: real('weight').notNull(), // in kg
+  deletedAt: timestamp('deleted_at'), // in the trash since then; purged after the retention period
+});
+
+export const activities = pgTable('activities', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: activityTypeEnum('type').notNull(),
+  startedAt: timestamp('started_at').notNull(),
+  durationMinutes: integer('duration_minutes').notNull(),
+  intensity: activityIntensityEnum('intensity').notNull(),
+  calories: real('calories'), // kcal burned, if the user knows it
+});
+
+// Laboratory HbA1c measurements, entered by the user from their lab reports.
+export const hba1cResults = pgTable('hba1c_results', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  takenAt: timestamp('taken_at').notNull(), // sample date
+  percent: real('percent').notNull(), // NGSP %; mmol/mol is derived
+  labName: text('lab_name'),
+});
+
+export const ketoneReadings = pgTable('ketone_readings', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  takenAt: timestamp('taken_at').notNull(),
+  method: ketoneMethodEnum('method').notNull(),
+  value: real('value').notNull(), // in mmol/L; urine strip colours are stored at their chart value
+});
+
+export const bloodPressureReadings = pgTable('blood_pressure_readings', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  takenAt: timestamp('taken_at').notNull(),
+  systolic: integer('systolic').notNull(), // mmHg
+  diastolic: integer('diastolic').notNull(), // mmHg
+  pulse: integer('pulse'), // beats per minute
+  arm: bloodPressureArmEnum('arm'),
+});
+
+// Spans of sick-day mode. At most one per user is open (endedAt null) at a time.
+export const sickDayPeriods = pgTable('sick_day_periods', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  startedAt: timestamp('started_at').notNull().defaultNow(),
+  endedAt: timestamp('ended_at'),
+});
+
+// Caregiver access to another user's glucose and weight records. A row starts
+// as an emailed invitation and becomes active once the invitee accepts it.
+export const shares = pgTable('shares', {
+  id: text('id').notNull().primaryKey(),
+  ownerId: text('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  granteeId: text('grantee_id').references(() => users.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(), // address the invitation was sent to
+  role: shareRoleEnum('role').notNull(),
+  tokenHash: text('token_hash').unique(), // cleared once accepted
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(), // for the pending invitation
+  acceptedAt: timestamp('accepted_at'),
+  revokedAt: timestamp('revoked_at'),
+});
+
+// Read-only access for a clinician, requested by the clinician and granted by the patient.
+export const clinicLinks = pgTable('clinic_links', {
+  id: text('id').notNull().primaryKey(),
+  clinicianId: text('clinician_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  patientId: text('patient_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  status: clinicLinkStatusEnum('status').notNull().default('pending'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  respondedAt: timestamp('responded_at'),
+});
+
+export const sessions = pgTable('sessions', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull().unique(), // SHA-256 of the cookie token
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastSeenAt: timestamp('last_seen_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
+});
+
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull().unique(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+});
+
+export const emailVerificationTokens = pgTable('email_verification_tokens', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(), // the address this token confirms
+  tokenHash: text('token_hash').notNull().unique(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+});
+
+export const recoveryCodes = pgTable('recovery_codes', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: text('code_hash').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  usedAt: timestamp('used_at'),
+});
+
+// Logins that passed the password check and are waiting for a second factor.
+export const twoFactorChallenges = pgTable('two_factor_challenges', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull().unique(),
+  attempts: integer('attempts').notNull().default(0),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+});
+
+// Failed-login counters, keyed by `account:<email>` or `ip:<address>`.
+export const loginThrottles = pgTable('login_throttles', {
+  key: text('key').notNull().primaryKey(),
+  failures: integer('failures').notNull().default(0),
+  lastFailureAt: timestamp('last_failure_at').notNull(),
+  lockedUntil: timestamp('locked_until'),
+});
+
+export const securityEvents = pgTable('security_events', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: securityEventTypeEnum('type').notNull(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Append-only history of changes to health records. Rows are only ever
+// inserted; `before`/`after` hold the record as the client saw it.
+export const auditEvents = pgTable('audit_events', {
+  id: text('id').notNull().primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }), // whose record changed
+  actorId: text('actor_id').references(() => users.id, { onDelete: 'set null' }), // who changed it
+  action: auditActionEnum('action').notNull(),
+  entityType: auditEntityTypeEnum('entity_type').notNull(),
+  entityId: text('entity_id').notNull(),
+  before: jsonb('before'),
+  after: jsonb('after'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Messages captured by the default (development) mail transport.
+export const mailOutbox = pgTable('mail_outbox', {
+  id: text('id').notNull().primaryKey(),
+  to: text('to').notNull(),
+  subject: text('subject').notNull(),
+  text: text('text').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
 // Relations
@@ -33,13 +284,120 @@ export const weightHistory = pgTable('weight_history', {
 export const usersRelations = relations(users, ({ many }) => ({
   glucoseLogs: many(glucoseLogs),
   weightHistory: many(weightHistory),
+  insulins: many(insulins),
+  tags: many(tags),
+  activities: many(activities),
+  hba1cResults: many(hba1cResults),
+  ketoneReadings: many(ketoneReadings),
+  sickDayPeriods: many(sickDayPeriods),
+  bloodPressureReadings: many(bloodPressureReadings),
+  hypoEvents: many(hypoEvents),
+  sessions: many(sessions),
+  sharesGiven: many(shares, { relationName: 'shareOwner' }),
+  sharesReceived: many(shares, { relationName: 'shareGrantee' }),
+  clinicPatients: many(clinicLinks, { relationName: 'clinicClinician' }),
+  clinicians: many(clinicLinks, { relationName: 'clinicPatient' }),
 }));
 
-export const glucoseLogsRelations = relations(glucoseLogs, ({ one }) => ({
+export const glucoseLogsRelations = relations(glucoseLogs, ({ one, many }) => ({
   user: one(users, {
     fields: [glucoseLogs.userId],
     references: [users.id],
   }),
+  doses: many(insulinDoses),
+  tags: many(glucoseLogTags),
+  hypoEvents: many(hypoEvents, { relationName: 'hypoLog' }),
+  hypoRechecks: many(hypoEvents, { relationName: 'hypoRecheckLog' }),
+}));
+
+export const hypoEventsRelations = relations(hypoEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [hypoEvents.userId],
+    references: [users.id],
+  }),
+  log: one(glucoseLogs, {
+    fields: [hypoEvents.logId],
+    references: [glucoseLogs.id],
+    relationName: 'hypoLog',
+  }),
+  recheckLog: one(glucoseLogs, {
+    fields: [hypoEvents.recheckLogId],
+    references: [glucoseLogs.id],
+    relationName: 'hypoRecheckLog',
+  }),
+}));
+
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  user: one(users, {
+    fields: [tags.userId],
+    references: [users.id],
+  }),
+  logs: many(glucoseLogTags),
+}));
+
+export const glucoseLogTagsRelations = relations(glucoseLogTags, ({ one }) => ({
+  log: one(glucoseLogs, {
+    fields: [glucoseLogTags.logId],
+    references: [glucoseLogs.id],
+  }),
+  tag: one(tags, {
+    fields: [glucoseLogTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const activitiesRelations = relations(activities, ({ one }) => ({
+  user: one(users, {
+    fields: [activities.userId],
+    references: [users.id],
+  }),
+}));
+
+export const hba1cResultsRelations = relations(hba1cResults, ({ one }) => ({
+  user: one(users, {
+    fields: [hba1cResults.userId],
+    references: [users.id],
+  }),
+}));
+
+export const ketoneReadingsRelations = relations(ketoneReadings, ({ one }) => ({
+  user: one(users, {
+    fields: [ketoneReadings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const bloodPressureReadingsRelations = relations(bloodPressureReadings, ({ one }) => ({
+  user: one(users, {
+    fields: [bloodPressureReadings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const sickDayPeriodsRelations = relations(sickDayPeriods, ({ one }) => ({
+  user: one(users, {
+    fields: [sickDayPeriods.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insulinsRelations = relations(insulins, ({ one, many }) => ({
+  user: one(users, {
+    fields: [insulins.userId],
+    references: [users.id],
+  }),
+  doses: many(insulinDoses),
+}));
+
+export const insulinDosesRelations = relations(insulinDoses, ({ one }) => ({
+  log: one(glucoseLogs, {
+    fields: [insulinDoses.logId],
+    references: [glucoseLogs.id],
+  }),
+  insulin: one(insulins, {
+    fields: [insulinDoses.insulinId],
+    references: [insulins.id],
+  }),
 }));
 
 export const weightHistoryRelations = relations(weightHistory, ({ one }) => ({
@@ -48,3 +406,43 @@ export const weightHistoryRelations = relations(weightHistory, ({ one }) => ({
     references: [users.id],
   }),
 }));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const sharesRelations = relations(shares, ({ one }) => ({
+  owner: one(users, {
+    fields: [shares.ownerId],
+    references: [users.id],
+    relationName: 'shareOwner',
+  }),
+  grantee: one(users, {
+    fields: [shares.granteeId],
+    references: [users.id],
+    relationName: 'shareGrantee',
+  }),
+}));
+
+export const clinicLinksRelations = relations(clinicLinks, ({ one }) => ({
+  clinician: one(users, {
+    fields: [clinicLinks.clinicianId],
+    references: [users.id],
+    relationName: 'clinicClinician',
+  }),
+  patient: one(users, {
+    fields: [clinicLinks.patientId],
+    references: [users.id],
+    relationName: 'clinicPatient',
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditEvents.actorId],
+    references: [users.id],
+  }),
+}));
@@ -0,0 +1,19 @@
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from './db';
+import * as schema from './schema';
+import { hashToken } from './tokens';
+
+export const SESSION_COOKIE_NAME = 'glucotrack_session';
+
+// Looks up the live (unrevoked, unexpired) session for a cookie token. Shared
+// by the server actions and the middleware, so it must stay edge-compatible.
+export async function findActiveSession(token: string) {
+  return db.query.sessions.findFirst({
+    where: and(
+      eq(schema.sessions.tokenHash, await hashToken(token)),
+      isNull(schema.sessions.revokedAt),
+      gt(schema.sessions.expiresAt, new Date()),
+    ),
+    with: { user: true },
+  });
+}
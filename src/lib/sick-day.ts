@@ -0,0 +1,49 @@
+import { addHours } from 'date-fns';
+import { formatGlucose } from './glucose-units';
+import type { GlucoseLog, GlucoseUnit, KetoneReading, SickDayPeriod } from './types';
+
+// Check intervals while sick-day mode is on. Outside of it there is no fixed
+// schedule; reminders come from the usual AI suggestions.
+export const SICK_DAY_CHECK_HOURS = { glucose: 2, ketones: 4 };
+// Above this glycemia (g/L) ketones should be checked with every glucose check.
+export const SICK_DAY_KETONE_GLYCEMIA = 2.5;
+
+export function getSickDayGuidance(unit: GlucoseUnit): string[] {
+  return [
+    'Never stop your basal insulin, even if you are not eating.',
+    `Check your glucose every ${SICK_DAY_CHECK_HOURS.glucose} hours, including at night.`,
+    `Check ketones every ${SICK_DAY_CHECK_HOURS.ketones} hours, or at every glucose check above ${formatGlucose(SICK_DAY_KETONE_GLYCEMIA, unit)}.`,
+    'Drink at least 250 mL of sugar-free fluid every hour; switch to sugary drinks if you cannot eat.',
+    'Call your care team if you vomit more than once, ketones stay high, or glucose will not come down.',
+  ];
+}
+
+export function getActiveSickDay(periods: SickDayPeriod[]): SickDayPeriod | null {
+  return periods.find(period => period.endedAt === null) ?? null;
+}
+
+export function isDuringSickDay(periods: SickDayPeriod[], at: Date): boolean {
+  return periods.some(period =>
+    new Date(period.startedAt) <= at && (period.endedAt === null || at <= new Date(period.endedAt)));
+}
+
+export interface SickDayCheck {
+  kind: 'glucose' | 'ketones';
+  dueAt: Date;
+}
+
+// When the next glucose and ketone checks are due, counted from the last
+// reading taken during the sick day (or from its start). Both lists are newest first.
+export function getSickDayChecks(period: SickDayPeriod, glucoseLogs: GlucoseLog[], ketoneReadings: KetoneReading[]): SickDayCheck[] {
+  const startedAt = new Date(period.startedAt);
+  const lastGlucose = glucoseLogs.find(log => new Date(log.timestamp) >= startedAt);
+  const lastKetones = ketoneReadings.find(reading => new Date(reading.takenAt) >= startedAt);
+  const ketoneHours = lastGlucose && lastGlucose.glycemia > SICK_DAY_KETONE_GLYCEMIA
+    ? SICK_DAY_CHECK_HOURS.glucose
+    : SICK_DAY_CHECK_HOURS.ketones;
+
+  return [
+    { kind: 'glucose', dueAt: addHours(lastGlucose ? new Date(lastGlucose.timestamp) : startedAt, SICK_DAY_CHECK_HOURS.glucose) },
+    { kind: 'ketones', dueAt: addHours(lastKetones ? new Date(lastKetones.takenAt) : startedAt, ketoneHours) },
+  ];
+}
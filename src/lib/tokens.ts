@@ -0,0 +1,17 @@
+// Opaque tokens for sessions and one-time links. Only the SHA-256 hash of a
+// token is ever stored, so a leaked table cannot be replayed as cookies.
+// Uses Web Crypto so it works in both the Node and Edge runtimes.
+
+export function generateToken(byteLength = 32): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return toHex(bytes);
+}
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
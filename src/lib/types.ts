@@ -1,12 +1,91 @@
 
 export type MealType = 'Breakfast' | 'Lunch' | 'Dinner' | 'Snack' | 'Fasting';
+export type GlucoseUnit = 'g/L' | 'mg/dL' | 'mmol/L';
+
+export type InsulinType = 'rapid' | 'short' | 'intermediate' | 'long' | 'mixed';
+
+export interface Insulin {
+  id: string;
+  name: string;
+  type: InsulinType;
+  concentration: number; // units per mL
+  durationHours: number | null; // duration of action
+  archived: boolean;
+}
+
+export interface InsulinDose {
+  insulinId: string;
+  units: number;
+}
 
 export interface GlucoseLog {
   id: string;
   timestamp: string; // ISO string
   mealType: MealType;
   glycemia: number; // in g/L
-  dosage: number; // Novorapide units
+  doses: InsulinDose[];
+  carbs: number | null; // grams
+  mealDescription: string | null;
+  notes: string | null;
+  tags: string[]; // tag names, alphabetical
+}
+
+export type ActivityType = 'walking' | 'running' | 'cycling' | 'swimming' | 'strength' | 'sports' | 'other';
+export type ActivityIntensity = 'light' | 'moderate' | 'vigorous';
+
+export interface Activity {
+  id: string;
+  type: ActivityType;
+  startedAt: string; // ISO string
+  durationMinutes: number;
+  intensity: ActivityIntensity;
+  calories: number | null; // kcal
+}
+
+export interface HbA1cResult {
+  id: string;
+  takenAt: string; // ISO string
+  percent: number; // NGSP %
+  labName: string | null;
+}
+
+export type KetoneMethod = 'blood' | 'urine';
+
+export interface KetoneReading {
+  id: string;
+  takenAt: string; // ISO string
+  method: KetoneMethod;
+  value: number; // in mmol/L
+}
+
+export type BloodPressureArm = 'left' | 'right';
+
+export interface BloodPressureReading {
+  id: string;
+  takenAt: string; // ISO string
+  systolic: number; // mmHg
+  diastolic: number; // mmHg
+  pulse: number | null; // bpm
+  arm: BloodPressureArm | null;
+}
+
+export interface SickDayPeriod {
+  id: string;
+  startedAt: string; // ISO string
+  endedAt: string | null; // ISO string, null while sick-day mode is on
+}
+
+export interface HypoEvent {
+  id: string;
+  logId: string; // the low reading
+  occurredAt: string; // ISO string, timestamp of the low reading
+  glycemia: number; // in g/L
+  symptoms: string[];
+  treatment: string | null;
+  treatmentCarbs: number | null; // grams
+  recheckDueAt: string; // ISO string
+  recheckLogId: string | null;
+  recheckGlycemia: number | null; // in g/L, once the recheck is logged
 }
 
 export interface WeightEntry {
@@ -20,7 +99,58 @@ export interface UserProfile {
   name: string;
   birthdate: string | null; // ISO string or null
   height: number | null; // in cm or null
+  glucoseUnit: GlucoseUnit; // how glycemia is shown and entered
+  hypoThreshold: number; // in g/L
+  email: string;
+  twoFactorEnabled: boolean;
+}
+
+export type UserRole = 'patient' | 'clinician';
+
+export type ClinicLinkStatus = 'pending' | 'active' | 'declined' | 'revoked';
+
+// A clinician link as seen by either party; `name`/`email` describe the other side.
+export interface ClinicLink {
+  id: string;
+  name: string;
   email: string;
+  status: ClinicLinkStatus;
+  createdAt: string; // ISO string
+}
+
+export interface ClinicPatientSummary {
+  patientId: string;
+  name: string;
+  email: string;
+  latestReading: { glycemia: number; timestamp: string } | null;
+  average14d: number | null; // g/L
+  timeInRange14d: number | null; // share of readings in range, 0-1
+  readingCount14d: number;
+}
+
+export type ShareRole = 'viewer' | 'logger';
+
+// Access the signed-in user has to the records currently shown.
+export type AccessRole = 'owner' | ShareRole;
+
+// A share granted by the signed-in user.
+export interface Share {
+  id: string;
+  email: string;
+  role: ShareRole;
+  status: 'pending' | 'active';
+  granteeName: string | null;
+  createdAt: string; // ISO string
+}
+
+// An account that has been shared with the signed-in user.
+export interface SharedAccount {
+  shareId: string;
+  ownerId: string;
+  name: string;
+  email: string;
+  role: ShareRole;
+  hypoThreshold: number; // the owner's, in g/L
 }
 
 export type AuthState = 'loading' | 'loggedIn' | 'loggedOut';
@@ -29,4 +159,88 @@ export interface AppUser {
     id: string;
     email: string;
     displayName: string;
+    emailVerified: boolean;
+    role: UserRole;
+    deletionScheduledAt: string | null; // ISO string or null
+}
+
+export type LoginResult =
+  | { status: 'success'; user: AppUser }
+  | { status: 'locked'; retryAt: string } // ISO string
+  | { status: 'two_factor_required' };
+
+export type SecurityEventType =
+  | 'login_succeeded'
+  | 'login_failed'
+  | 'account_locked'
+  | 'two_factor_failed'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'recovery_code_used'
+  | 'password_changed'
+  | 'email_changed';
+
+export interface TotpEnrollment {
+  secret: string; // base32, for manual entry
+  otpauthUri: string;
+}
+
+export interface SecurityEvent {
+  id: string;
+  type: SecurityEventType;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string; // ISO string
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+export type AuditEntityType = 'glucose_log' | 'weight_entry' | 'activity' | 'hba1c_result' | 'ketone_reading' | 'sick_day_period' | 'blood_pressure' | 'hypo_event' | 'profile';
+
+export interface AuditEvent {
+  id: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  actorName: string | null; // null once the actor's account is gone
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string; // ISO string
+}
+
+export interface ActiveSession {
+  id: string;
+  createdAt: string; // ISO string
+  lastSeenAt: string; // ISO string
+  userAgent: string | null;
+  ipAddress: string | null;
+  current: boolean;
+}
+
+export interface UserDataExport {
+  exportedAt: string; // ISO string
+  profile: UserProfile;
+  insulins: Insulin[];
+  glucoseLogs: GlucoseLog[];
+  weightHistory: WeightEntry[];
+  activities: Activity[];
+  hba1cResults: HbA1cResult[];
+  ketoneReadings: KetoneReading[];
+  sickDayPeriods: SickDayPeriod[];
+  bloodPressureReadings: BloodPressureReading[];
+  hypoEvents: HypoEvent[];
+}
+
+// Deleted entries that can still be restored.
+export interface TrashContents {
+  glucoseLogs: (GlucoseLog & { deletedAt: string })[]; // ISO string
+  weightHistory: (WeightEntry & { deletedAt: string })[]; // ISO string
+  retentionDays: number; // entries are erased this long after deletion
+}
+
+export interface OutboxMessage {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  createdAt: string; // ISO string
 }
@@ -0,0 +1,60 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { findActiveSession, SESSION_COOKIE_NAME } from '@/lib/session';
+import { getSafeReturnTo } from '@/lib/return-to';
+
+const PROTECTED_PATHS = ['/dashboard', '/logs', '/reports', '/reminders', '/trash', '/profile', '/clinic'];
+const GUEST_ONLY_PATHS = ['/login', '/signup'];
+
+async function resolveSession(token: string | undefined) {
+  if (!token) return null;
+  try {
+    return (await findActiveSession(token)) ?? null;
+  } catch (error) {
+    // Fail closed: without a verified session, protected pages send the user to login.
+    console.error('Session lookup failed in middleware:', error);
+    return null;
+  }
+}
+
+function matches(pathname: string, paths: string[]) {
+  return paths.some(path => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+// Validates the session cookie against the database before any protected page
+// renders. Server actions still authorize every call on their own.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await resolveSession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+
+  if (pathname === '/') {
+    return NextResponse.redirect(new URL(session ? '/dashboard' : '/login', request.url));
+  }
+
+  if (matches(pathname, PROTECTED_PATHS) && !session) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('returnTo', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (matches(pathname, GUEST_ONLY_PATHS) && session) {
+    const returnTo = getSafeReturnTo(request.nextUrl.searchParams.get('returnTo'));
+    return NextResponse.redirect(new URL(returnTo, request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    '/',
+    '/dashboard/:path*',
+    '/logs/:path*',
+    '/reports/:path*',
+    '/reminders/:path*',
+    '/trash/:path*',
+    '/profile/:path*',
+    '/clinic/:path*',
+    '/login',
+    '/signup',
+  ],
+};